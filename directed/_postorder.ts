@@ -0,0 +1,55 @@
+/**
+ * Explore the nodes reachable from the roots depth-first.
+ *
+ * @returns The reachable nodes in postorder, so every node comes after its successors,
+ * and `undefined`, or the incomplete list of nodes and the first cycle found, as a list of
+ * nodes where each node is followed by its successor in the cycle, and the last node leads
+ * back to the first one.
+ */
+export function postorder<Node>(options: {
+  roots: Iterable<Node>;
+  successors: (node: Node) => Iterable<Node>;
+  key: (node: Node) => unknown;
+}): [Node[], Node[] | undefined] {
+  const result: Node[] = [];
+  const sortedKeys = new Set<unknown>();
+  // The nodes being explored, with the index of each one in the path.
+  const path: Node[] = [];
+  const pathIndexes = new Map<unknown, number>();
+  const successorIterators: Iterator<Node>[] = [];
+  const visit = (node: Node, nodeKey: unknown) => {
+    pathIndexes.set(nodeKey, path.length);
+    path.push(node);
+    successorIterators.push(options.successors(node)[Symbol.iterator]());
+  };
+
+  for (const root of options.roots) {
+    const rootKey = options.key(root);
+    if (sortedKeys.has(rootKey)) {
+      continue;
+    }
+    visit(root, rootKey);
+    while (successorIterators.length !== 0) {
+      const next = successorIterators[successorIterators.length - 1].next();
+      if (next.done) {
+        successorIterators.pop();
+        const node = path.pop()!;
+        const nodeKey = options.key(node);
+        pathIndexes.delete(nodeKey);
+        sortedKeys.add(nodeKey);
+        result.push(node);
+        continue;
+      }
+      const successor = next.value;
+      const successorKey = options.key(successor);
+      const pathIndex = pathIndexes.get(successorKey);
+      if (pathIndex !== undefined) {
+        return [result, path.slice(pathIndex)];
+      }
+      if (!sortedKeys.has(successorKey)) {
+        visit(successor, successorKey);
+      }
+    }
+  }
+  return [result, undefined];
+}
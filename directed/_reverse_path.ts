@@ -5,7 +5,7 @@ export function reversePath<Entry>(
 ): unknown[] {
   const list: unknown[] = [];
   let nodeKey = startNodeKey;
-  while (nodeKey) {
+  while (nodeKey !== undefined) {
     const entry = encounteredNodes.get(nodeKey);
     if (!entry) {
       break;
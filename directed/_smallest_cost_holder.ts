@@ -0,0 +1,37 @@
+import { CostOptions } from "./cost_options.ts";
+
+export interface SmallestCostHolder<Cost> {
+  /**
+   * The estimated cost through this node to the goal.
+   */
+  estimatedCost: Cost;
+  /**
+   * The cost to reach this node.
+   */
+  cost: Cost;
+  nodeKey: unknown;
+}
+
+/**
+ * Compare binary heap items by estimated cost, then with the tie break function if one is
+ * given, and then by cost.
+ */
+export function compareSmallestCostHolders<
+  Cost,
+  Holder extends SmallestCostHolder<Cost>,
+>(
+  costOptions: CostOptions<Cost>,
+  a: Holder,
+  b: Holder,
+  tieBreakCompare?: (a: Holder, b: Holder) => number,
+): number {
+  const estimatedCostsCompared = costOptions.compareFn(
+    a.estimatedCost,
+    b.estimatedCost,
+  );
+  if (estimatedCostsCompared !== 0) {
+    return estimatedCostsCompared;
+  }
+  return (tieBreakCompare?.(a, b) ?? 0) ||
+    costOptions.compareFn(a.cost, b.cost);
+}
@@ -0,0 +1,55 @@
+import { CostOptions } from "./cost_options.ts";
+import { DijkstraEncounteredNodeEntry } from "./dijkstra.ts";
+
+/**
+ * @returns The start nodes along with their initial cost, from either the `starts`
+ * option, or the `startNodes` or `start` options with a zero cost.
+ */
+export function getStarts<Node, Cost>(
+  options: {
+    start?: Node;
+    starts?: Iterable<[Node, Cost]>;
+    startNodes?: Iterable<Node>;
+  },
+  costOptions: CostOptions<Cost>,
+): [Node, Cost][] {
+  if (options.starts !== undefined) {
+    return Array.from(options.starts);
+  }
+  if (options.startNodes !== undefined) {
+    return Array.from(
+      options.startNodes,
+      (start): [Node, Cost] => [start, costOptions.zero],
+    );
+  }
+  if (options.start === undefined) {
+    throw new TypeError(
+      "Either the start, starts or startNodes option must be given",
+    );
+  }
+  return [[options.start, costOptions.zero]];
+}
+
+/**
+ * @returns Whether the search starts from the `starts` or `startNodes` options, in which
+ * case the encountered nodes record the start node they were reached from.
+ */
+export function hasSeveralStarts(
+  options: { starts?: unknown; startNodes?: unknown },
+): boolean {
+  return options.starts !== undefined || options.startNodes !== undefined;
+}
+
+/**
+ * Set the `startKey` of a new encountered node entry, unless it is `undefined`, so that the
+ * entries of a search from a single start node don't have this property.
+ */
+export function withStartKey<Node, Cost>(
+  entry: DijkstraEncounteredNodeEntry<Node, Cost>,
+  startKey: unknown,
+): DijkstraEncounteredNodeEntry<Node, Cost> {
+  if (startKey !== undefined) {
+    entry.startKey = startKey;
+  }
+  return entry;
+}
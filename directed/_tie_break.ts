@@ -0,0 +1,64 @@
+/**
+ * How to order the nodes which are equally good candidates to be explored next:
+ *
+ * - `"prefer-deeper"`: the nodes reached through more moves from the start first.
+ * - `"prefer-shallower"`: the nodes reached through fewer moves from the start first.
+ * - `"fifo"`: the nodes in the order they were reached.
+ * - `"lifo"`: the most recently reached nodes first.
+ * - A function which is expected to return a negative value if the first node should be
+ *   explored before the second one, a positive value if it should be explored after it, and
+ *   zero if they're equal.
+ *
+ * Except with `"lifo"`, nodes which are still equal are explored in the order they were
+ * reached, so the result only depends on the options and on the order of the successors.
+ */
+export type TieBreak<Node> =
+  | "prefer-deeper"
+  | "prefer-shallower"
+  | "fifo"
+  | "lifo"
+  | ((a: Node, b: Node) => number);
+
+export interface TieBreakHolder {
+  nodeKey: unknown;
+  /**
+   * The number of moves from the start node.
+   */
+  depth: number;
+  /**
+   * The number of nodes added to the binary heap before this one.
+   */
+  index: number;
+}
+
+/**
+ * @returns A function comparing binary heap items according to the tie break option, or
+ * `undefined` if no tie break option is given. The items which are still equal are then
+ * expected to be compared with {@link compareIndexes}.
+ */
+export function tieBreakCompareFn<Node>(
+  tieBreak: TieBreak<Node> | undefined,
+  getNode: (nodeKey: unknown) => Node,
+): ((a: TieBreakHolder, b: TieBreakHolder) => number) | undefined {
+  switch (tieBreak) {
+    case undefined:
+      return undefined;
+    case "prefer-deeper":
+      return (a, b) => b.depth - a.depth;
+    case "prefer-shallower":
+      return (a, b) => a.depth - b.depth;
+    case "fifo":
+      return compareIndexes;
+    case "lifo":
+      return (a, b) => b.index - a.index;
+    default:
+      return (a, b) => tieBreak(getNode(a.nodeKey), getNode(b.nodeKey));
+  }
+}
+
+/**
+ * Compare binary heap items in the order they were added.
+ */
+export function compareIndexes(a: TieBreakHolder, b: TieBreakHolder): number {
+  return a.index - b.index;
+}
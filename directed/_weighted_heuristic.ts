@@ -0,0 +1,22 @@
+import { CostOptions } from "./cost_options.ts";
+
+/**
+ * @returns The heuristic of the options multiplied by the given weight.
+ */
+export function weightedHeuristic<Node, Cost>(
+  options: { heuristic: (node: Node) => Cost },
+  costOptions: CostOptions<Cost>,
+  weight: number | undefined,
+): (node: Node) => Cost {
+  if (weight === undefined || weight === 1) {
+    return options.heuristic;
+  }
+  if (weight < 1) {
+    throw new RangeError("The weight must be greater than or equal to 1");
+  }
+  const { scale } = costOptions;
+  if (!scale) {
+    throw new Error("costOptions.scale is required to use a weight");
+  }
+  return (node) => scale(options.heuristic(node), weight);
+}
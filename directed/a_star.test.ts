@@ -70,3 +70,74 @@ Deno.test("failure with max cost", () => {
 
   assertEquals(result, undefined);
 });
+
+Deno.test("aStar() with multiple starts", () => {
+  const result = aStar({
+    starts: [[0, 0], [10, 3]],
+    successors: (n): [number, number][] => [[n - 1, 1], [n + 1, 1]],
+    heuristic: (n) => Math.abs(n - 7),
+    success: (n) => n === 7,
+    key: (n) => n,
+  });
+  assertEquals(result, [[10, 9, 8, 7], 6]);
+});
+
+Deno.test("aStar() with multiple start nodes", () => {
+  type Pos = [number, number];
+  const result = aStar<Pos>({
+    startNodes: [[0, 0], [5, 0]],
+    successors: ([x, y]): [Pos, number][] => [[[x - 1, y], 1], [[x + 1, y], 1]],
+    heuristic: ([x]) => Math.abs(x - 3),
+    success: ([x]) => x === 3,
+    key: ([x, y]) => x + "," + y,
+  });
+  assertEquals(result, [[[5, 0], [4, 0], [3, 0]], 2]);
+});
+
+Deno.test("aStar() tieBreak", () => {
+  type Pos = [number, number];
+  const SIZE = 10;
+  let expanded = 0;
+  const options = {
+    start: [0, 0] as Pos,
+    successors: ([x, y]: Pos): [Pos, number][] => {
+      expanded++;
+      return ([[x - 1, y], [x, y - 1], [x + 1, y], [x, y + 1]] as Pos[])
+        .filter(([x, y]) => x >= 0 && x < SIZE && y >= 0 && y < SIZE)
+        .map((p) => [p, 1]);
+    },
+    heuristic: ([x, y]: Pos) => 2 * (SIZE - 1) - x - y,
+    success: ([x, y]: Pos) => x === SIZE - 1 && y === SIZE - 1,
+    key: ([x, y]: Pos) => x + "," + y,
+  };
+  // Every node of the grid has the same estimated cost.
+  const deeper = aStar({ ...options, tieBreak: "prefer-deeper" })!;
+  assertEquals(deeper[1], 2 * (SIZE - 1));
+  assertEquals(expanded, 2 * (SIZE - 1));
+
+  expanded = 0;
+  const shallower = aStar({ ...options, tieBreak: "prefer-shallower" })!;
+  assertEquals(shallower[1], 2 * (SIZE - 1));
+  assertEquals(expanded, SIZE * SIZE - 1);
+
+  assertEquals(
+    aStar({ ...options, tieBreak: (a, b) => b[0] - a[0] })![0].slice(0, SIZE),
+    Array.from({ length: SIZE }, (_, x) => [x, 0]),
+  );
+
+  // The successors increasing x are listed before the ones increasing y, so "fifo"
+  // explores the grid breadth-first and "lifo" follows a single path along x = 0.
+  expanded = 0;
+  assertEquals(
+    aStar({ ...options, tieBreak: "fifo" })![0].slice(0, SIZE),
+    Array.from({ length: SIZE }, (_, x) => [x, 0]),
+  );
+  assertEquals(expanded, SIZE * SIZE - 1);
+
+  expanded = 0;
+  assertEquals(
+    aStar({ ...options, tieBreak: "lifo" })![0].slice(0, SIZE),
+    Array.from({ length: SIZE }, (_, y) => [0, y]),
+  );
+  assertEquals(expanded, 2 * (SIZE - 1));
+});
@@ -1,12 +1,42 @@
 import { BinaryHeap } from "https://deno.land/std@0.189.0/collections/binary_heap.ts";
 import { reversePath } from "./_reverse_path.ts";
+import {
+  compareSmallestCostHolders,
+  SmallestCostHolder,
+} from "./_smallest_cost_holder.ts";
+import { getStarts } from "./_starts.ts";
+import {
+  compareIndexes,
+  TieBreak,
+  tieBreakCompareFn,
+  TieBreakHolder,
+} from "./_tie_break.ts";
+import { weightedHeuristic } from "./_weighted_heuristic.ts";
 import { CostOptions, numberCostOptions } from "./cost_options.ts";
 
 export interface AStarOptions<Node, Cost = number> {
   /**
-   * The starting node.
+   * The starting node. Either this, {@link AStarOptions.starts} or
+   * {@link AStarOptions.startNodes} must be given.
    */
-  start: Node;
+  start?: Node;
+  /**
+   * The starting nodes, along with the initial cost of each of them. This can be
+   * given instead of {@link AStarOptions.start} to search from the closest of
+   * several nodes at once, in which case {@link AStarOptions.start} and
+   * {@link AStarOptions.startNodes} are ignored.
+   */
+  starts?: Iterable<[Node, Cost]>;
+  /**
+   * The starting nodes, each with a zero initial cost. This can be given instead of
+   * {@link AStarOptions.start} to search from the closest of several nodes at once, in
+   * which case {@link AStarOptions.start} is ignored.
+   *
+   * This is a separate option from {@link AStarOptions.starts} because a bare node
+   * can't be told apart from a `[node, cost]` pair when the nodes are themselves
+   * arrays, such as `[x, y]` positions.
+   */
+  startNodes?: Iterable<Node>;
   /**
    * Returns a list of successors for a given node, along with the cost for
    * moving from the node to the successor.
@@ -52,6 +82,32 @@ export interface AStarOptions<Node, Cost = number> {
   maxCost?: Cost;
 }
 
+/**
+ * The options of {@link aStar}, which supports more options than the other functions
+ * using {@link AStarOptions}.
+ */
+export interface AStarSearchOptions<Node, Cost = number>
+  extends AStarOptions<Node, Cost> {
+  /**
+   * A factor greater than or equal to one that the heuristic is multiplied by, so
+   * that the search is more eager to explore the nodes closer to the goal. The returned
+   * path then costs at most this factor times the cost of the shortest path, but it is
+   * usually found much faster. This requires {@link CostOptions.scale} to be set when
+   * custom cost options are used. Defaults to `1`.
+   */
+  weight?: number;
+  /**
+   * How to order the nodes with the same estimated cost, which changes which path is
+   * returned when there are several shortest paths. By default, the nodes with the
+   * smallest cost are explored first, and the order of the nodes which are still
+   * equal is unspecified. With a tie break, the nodes it considers equal are still
+   * explored by smallest cost first.
+   */
+  tieBreak?: TieBreak<Node>;
+}
+
+export type { TieBreak };
+
 /**
  * Compute a shortest path using the [A* search
  * algorithm](https://en.wikipedia.org/wiki/A*_search_algorithm).
@@ -59,9 +115,9 @@ export interface AStarOptions<Node, Cost = number> {
  * Multiple equivalent nodes (determined by the {@link AStarOptions.key()} function) will never
  * be included twice in the path.
  *
- * The shortest path starting from {@link AStarOptions.start} up to a node for which {@link AStarOptions.success()} returns `true`
- * is computed and returned along with its total cost, or `undefined` is returned if no successful path
- * was found. The returned path comprises both the start and end node.
+ * The shortest path starting from {@link AStarOptions.start} (or from any of {@link AStarOptions.starts}) up to a node
+ * for which {@link AStarOptions.success()} returns `true` is computed and returned along with its total cost, or `undefined`
+ * is returned if no successful path was found. The returned path comprises both the start and end node.
  *
  * # Example
  *
@@ -100,19 +156,21 @@ export interface AStarOptions<Node, Cost = number> {
  * ```
  */
 export function aStar<Node, Cost = number>(
-  options: AStarOptions<Node, Cost>,
+  options: AStarSearchOptions<Node, Cost>,
 ): [Node[], Cost] | undefined {
   const costOptions = options.costOptions ??
     numberCostOptions as CostOptions<unknown> as CostOptions<Cost>;
+  const heuristic = weightedHeuristic(options, costOptions, options.weight);
 
-  const toSee = new BinaryHeap<SmallestCostHolder<Cost>>((a, b) =>
-    compareSmallestCostHolders(costOptions, a, b)
+  const tieBreakCompare = tieBreakCompareFn(
+    options.tieBreak,
+    (nodeKey) => encounteredNodes.get(nodeKey)!.node,
+  );
+  const toSee = new BinaryHeap<TieBreakingCostHolder<Cost>>((a, b) =>
+    compareSmallestCostHolders(costOptions, a, b, tieBreakCompare) ||
+    (tieBreakCompare ? compareIndexes(a, b) : 0)
   );
-  toSee.push({
-    estimatedCost: costOptions.zero,
-    cost: costOptions.zero,
-    nodeKey: options.key(options.start),
-  });
+  let nextIndex = 0;
 
   interface EncounteredNodeEntry<Node, Cost> {
     node: Node;
@@ -123,11 +181,33 @@ export function aStar<Node, Cost = number>(
     cost: Cost;
   }
   const encounteredNodes = new Map<unknown, EncounteredNodeEntry<Node, Cost>>();
-  encounteredNodes.set(options.key(options.start), {
-    node: options.start,
-    parentKey: undefined,
-    cost: costOptions.zero,
-  });
+  for (const [start, cost] of getStarts(options, costOptions)) {
+    if (
+      options.maxCost !== undefined &&
+      costOptions.compareFn(cost, options.maxCost) > 0
+    ) {
+      continue;
+    }
+    const startKey = options.key(start);
+    const encounteredNodeEntry = encounteredNodes.get(startKey);
+    if (
+      !encounteredNodeEntry ||
+      costOptions.compareFn(encounteredNodeEntry.cost, cost) > 0
+    ) {
+      encounteredNodes.set(startKey, {
+        node: start,
+        parentKey: undefined,
+        cost,
+      });
+      toSee.push({
+        estimatedCost: costOptions.add(cost, heuristic(start)),
+        cost,
+        nodeKey: startKey,
+        depth: 0,
+        index: nextIndex++,
+      });
+    }
+  }
   while (true) {
     const smallestCostHolder = toSee.pop();
     if (!smallestCostHolder) {
@@ -161,7 +241,7 @@ export function aStar<Node, Cost = number>(
       }
 
       const successorKey = options.key(successor);
-      const heuristicCost = options.heuristic(successor);
+      const heuristicCost = heuristic(successor);
       const encounteredNodeEntry = encounteredNodes.get(successorKey);
 
       // if we've never seen this node or encounteredNodeEntry.cost > newCost,
@@ -179,6 +259,8 @@ export function aStar<Node, Cost = number>(
           estimatedCost: costOptions.add(newCost, heuristicCost),
           cost: newCost,
           nodeKey: successorKey,
+          depth: smallestCostHolder.depth + 1,
+          index: nextIndex++,
         });
       }
     }
@@ -186,32 +268,8 @@ export function aStar<Node, Cost = number>(
   return undefined;
 }
 
-interface SmallestCostHolder<Cost> {
-  /**
-   * The estimated cost through this node to the goal.
-   */
-  estimatedCost: Cost;
-  /**
-   * The cost to reach this node.
-   */
-  cost: Cost;
-  nodeKey: unknown;
-}
-
-function compareSmallestCostHolders<Cost>(
-  costOptions: CostOptions<Cost>,
-  a: SmallestCostHolder<Cost>,
-  b: SmallestCostHolder<Cost>,
-): number {
-  const estimatedCostsCompared = costOptions.compareFn(
-    a.estimatedCost,
-    b.estimatedCost,
-  );
-  if (estimatedCostsCompared !== 0) {
-    return estimatedCostsCompared;
-  }
-  return costOptions.compareFn(a.cost, b.cost);
-}
+interface TieBreakingCostHolder<Cost>
+  extends SmallestCostHolder<Cost>, TieBreakHolder {}
 
 /**
  * Compute all shortest paths using the [A* search
@@ -222,10 +280,10 @@ function compareSmallestCostHolders<Cost>(
  * Multiple equivalent nodes (determined by the {@link AStarOptions.key()} function) will never
  * be included twice in the path.
  *
- * The shortest paths starting from {@link AStarOptions.start} up to a node for which {@link AStarOptions.success()} returns `true`
- * are computed and returned in an iterable along with the cost (which, by definition, is the same for
- * each shortest path). If no paths are found, `undefined` is returned. Each path comprises both the start and an end node. Note that while every path shares the same
- * start node, different paths may have different end nodes.
+ * The shortest paths starting from {@link AStarOptions.start} (or from any of {@link AStarOptions.starts}) up to a node for which
+ * {@link AStarOptions.success()} returns `true` are computed and returned in an iterable along with the cost (which, by definition,
+ * is the same for each shortest path). If no paths are found, `undefined` is returned. Each path comprises both a start and an end
+ * node. Note that different paths may have different start and end nodes.
  */
 export function aStarBag<Node, Cost = number>(
   options: AStarOptions<Node, Cost>,
@@ -233,31 +291,50 @@ export function aStarBag<Node, Cost = number>(
   const costOptions = options.costOptions ??
     numberCostOptions as CostOptions<unknown> as CostOptions<Cost>;
 
-  const startKey = options.key(options.start);
-
   let minCost: Cost | undefined;
   const sinks = new Set<unknown>();
 
   const toSee = new BinaryHeap<SmallestCostHolder<Cost>>((a, b) =>
     compareSmallestCostHolders(costOptions, a, b)
   );
-  toSee.push({
-    estimatedCost: costOptions.zero,
-    cost: costOptions.zero,
-    nodeKey: startKey,
-  });
 
   interface EncounteredNodeEntry<Node, Cost> {
     node: Node;
     parentKeys: Set<unknown>;
+    /**
+     * Whether this node is a start node that can't be reached more cheaply from
+     * another node.
+     */
+    isStart: boolean;
     cost: Cost;
   }
   const encounteredNodes = new Map<unknown, EncounteredNodeEntry<Node, Cost>>();
-  encounteredNodes.set(startKey, {
-    node: options.start,
-    parentKeys: new Set(),
-    cost: costOptions.zero,
-  });
+  for (const [start, cost] of getStarts(options, costOptions)) {
+    if (
+      options.maxCost !== undefined &&
+      costOptions.compareFn(cost, options.maxCost) > 0
+    ) {
+      continue;
+    }
+    const startKey = options.key(start);
+    const encounteredNodeEntry = encounteredNodes.get(startKey);
+    if (
+      !encounteredNodeEntry ||
+      costOptions.compareFn(encounteredNodeEntry.cost, cost) > 0
+    ) {
+      encounteredNodes.set(startKey, {
+        node: start,
+        parentKeys: new Set(),
+        isStart: true,
+        cost,
+      });
+      toSee.push({
+        estimatedCost: costOptions.add(cost, options.heuristic(start)),
+        cost,
+        nodeKey: startKey,
+      });
+    }
+  }
   while (true) {
     const smallestCostHolder = toSee.pop();
     if (!smallestCostHolder) {
@@ -299,6 +376,7 @@ export function aStarBag<Node, Cost = number>(
         encounteredNodes.set(successorKey, {
           node: successor,
           parentKeys: new Set([smallestCostHolder.nodeKey]),
+          isStart: false,
           cost: newCost,
         });
       } else {
@@ -309,6 +387,7 @@ export function aStarBag<Node, Cost = number>(
         if (comparisonResult > 0) { // if encounteredNodeEntry.cost > newCost
           encounteredNodeEntry.parentKeys.clear();
           encounteredNodeEntry.parentKeys.add(smallestCostHolder.nodeKey);
+          encounteredNodeEntry.isStart = false;
           encounteredNodeEntry.cost = newCost;
         } else {
           if (comparisonResult === 0) {
@@ -335,14 +414,13 @@ export function aStarBag<Node, Cost = number>(
       const path: Node[] = [];
 
       function* step(path: Node[], currentKey: unknown): Iterable<Node[]> {
-        const parentKeys = encounteredNodes.get(currentKey)!.parentKeys;
+        const { parentKeys, isStart } = encounteredNodes.get(currentKey)!;
+        if (isStart) {
+          yield path.slice().reverse();
+        }
         for (const parentKey of parentKeys) {
           path.push(encounteredNodes.get(parentKey)!.node);
-          if (parentKey === startKey) {
-            yield path.slice().reverse();
-          } else {
-            yield* step(path, parentKey);
-          }
+          yield* step(path, parentKey);
           path.pop();
         }
       }
@@ -93,3 +93,30 @@ Deno.test("multiple sinks, max cost", () => {
   });
   assertEquals(result, undefined);
 });
+
+Deno.test("multiple starts", () => {
+  const [solutions, cost] = aStarBag({
+    starts: [[0, 0], [4, 0], [5, 1]],
+    successors: (n): [number, number][] => [[n - 1, 1], [n + 1, 1]],
+    heuristic: (n) => Math.abs(n - 2),
+    success: (n) => n === 2,
+    key: (n) => n,
+  })!;
+  assertEquals(cost, 2);
+  assertEquals(Array.from(solutions).sort((a, b) => a[0] - b[0]), [
+    [0, 1, 2],
+    [4, 3, 2],
+  ]);
+});
+
+Deno.test("start is a sink", () => {
+  const [solutions, cost] = aStarBag({
+    start: 2,
+    successors: (n): [number, number][] => [[n - 1, 1], [n + 1, 1]],
+    heuristic: () => 0,
+    success: (n) => n === 2,
+    key: (n) => n,
+  })!;
+  assertEquals(cost, 0);
+  assertEquals(Array.from(solutions), [[2]]);
+});
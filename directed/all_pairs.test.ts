@@ -0,0 +1,144 @@
+import {
+  assertEquals,
+  assertThrows,
+} from "https://deno.land/std@0.189.0/testing/asserts.ts";
+import { floydWarshall, johnson } from "./all_pairs.ts";
+import { NegativeCycleError } from "./bellman_ford.ts";
+import { CostOptions } from "./cost_options.ts";
+import { dijkstra } from "./dijkstra.ts";
+
+function successors(node: string): [string, number][] {
+  switch (node) {
+    case "a":
+      return [["b", 1], ["c", 4]];
+    case "b":
+      return [["c", 2]];
+    default:
+      return [];
+  }
+}
+
+Deno.test("floydWarshall() doc example", () => {
+  const shortestPaths = floydWarshall({
+    nodes: ["a", "b", "c"],
+    successors,
+    key: (node) => node,
+  });
+  assertEquals(shortestPaths.cost("a", "c"), 3);
+  assertEquals(shortestPaths.path("a", "c"), ["a", "b", "c"]);
+  assertEquals(shortestPaths.path("c", "a"), undefined);
+  assertEquals(shortestPaths.cost("c", "a"), undefined);
+  assertEquals(shortestPaths.cost("b", "b"), 0);
+  assertEquals(shortestPaths.path("b", "b"), ["b"]);
+  assertEquals(shortestPaths.cost("a", "z"), undefined);
+});
+
+Deno.test("johnson() doc example", () => {
+  const shortestPaths = johnson({
+    nodes: ["a", "b", "c"],
+    successors: (node): [string, number][] =>
+      successors(node).map(([n, cost]) => [n, node === "b" ? -2 : cost]),
+    key: (node) => node,
+  });
+  assertEquals(shortestPaths.cost("a", "c"), -1);
+  assertEquals(shortestPaths.path("a", "c"), ["a", "b", "c"]);
+  assertEquals(shortestPaths.cost("b", "c"), -2);
+  assertEquals(shortestPaths.path("c", "a"), undefined);
+});
+
+Deno.test("floydWarshall() and johnson() match dijkstra()", () => {
+  type Pos = [number, number];
+  const nodes: Pos[] = [];
+  for (let x = 0; x < 5; x++) {
+    for (let y = 0; y < 5; y++) {
+      nodes.push([x, y]);
+    }
+  }
+  const options = {
+    nodes,
+    successors: ([x, y]: Pos): [Pos, number][] => [
+      [[x + 1, y], 1 + ((x * 7 + y * 3) % 5)],
+      [[x, y + 1], 1 + ((x * 2 + y * 5) % 4)],
+      [[x - 1, y - 1], 3],
+    ],
+    key: ([x, y]: Pos) => x + "," + y,
+  };
+  const results = [floydWarshall(options), johnson(options)];
+  for (const from of nodes) {
+    for (const to of nodes) {
+      const expected = dijkstra({
+        start: from,
+        successors: (node) =>
+          options.successors(node).filter(([[x, y]]) =>
+            x >= 0 && y >= 0 && x < 5 && y < 5
+          ),
+        success: ([x, y]) => x === to[0] && y === to[1],
+        key: options.key,
+      });
+      for (const result of results) {
+        assertEquals(result.cost(from, to), expected?.[1]);
+        const path = result.path(from, to);
+        assertEquals(path?.length !== undefined, expected !== undefined);
+        if (path) {
+          assertEquals(path[0], from);
+          assertEquals(path[path.length - 1], to);
+        }
+      }
+    }
+  }
+});
+
+Deno.test("floydWarshall() and johnson() negative cycle", () => {
+  const options = {
+    nodes: [1, 2, 3, 4],
+    successors: (n: number): [number, number][] => {
+      switch (n) {
+        case 1:
+          return [[2, 1]];
+        case 2:
+          return [[3, 1]];
+        case 3:
+          return [[2, -3], [4, 1]];
+        default:
+          return [];
+      }
+    },
+    key: (n: number) => n,
+  };
+  for (const algorithm of [floydWarshall, johnson]) {
+    const error = assertThrows(
+      () => algorithm(options),
+      NegativeCycleError,
+    ) as NegativeCycleError<number>;
+    assertEquals(error.cycle.slice().sort(), [2, 3]);
+  }
+});
+
+Deno.test("johnson() requires subtract for negative custom costs", () => {
+  type Cost = [number, number];
+  const costOptions: CostOptions<Cost> = {
+    zero: [0, 0],
+    add: (a, b) => [a[0] + b[0], a[1] + b[1]],
+    compareFn: (a, b) => a[0] - b[0] || a[1] - b[1],
+  };
+  const options = {
+    nodes: ["a", "b", "c"],
+    successors: (node: string): [string, Cost][] =>
+      successors(node).map(([n, cost]) => [n, [0, node === "b" ? -2 : cost]]),
+    key: (node: string) => node,
+  };
+  assertThrows(() => johnson({ ...options, costOptions }), Error, "subtract");
+
+  const shortestPaths = johnson({
+    ...options,
+    costOptions: {
+      ...costOptions,
+      subtract: (a, b): Cost => [a[0] - b[0], a[1] - b[1]],
+    },
+  });
+  assertEquals(shortestPaths.cost("a", "c"), [0, -1]);
+  assertEquals(floydWarshall({ ...options, costOptions }).cost("a", "c"), [
+    0,
+    -1,
+  ]);
+});
@@ -0,0 +1,353 @@
+import { bellmanFord, NegativeCycleError } from "./bellman_ford.ts";
+import { CostOptions, numberCostOptions } from "./cost_options.ts";
+import {
+  buildPath,
+  dijkstraAll,
+  DijkstraEncounteredNodeEntry,
+} from "./dijkstra.ts";
+
+export interface AllPairsOptions<Node, Cost = number> {
+  /**
+   * The nodes of the graph. Successors which are not part of this list are ignored.
+   */
+  nodes: Iterable<Node>;
+  /**
+   * Returns a list of successors for a given node, along with the cost for
+   * moving from the node to the successor.
+   */
+  successors: (node: Node) => Iterable<[Node, Cost]>;
+  /**
+   * A function that returns a unique key for a node. Equal nodes must return keys
+   * that are equal.
+   * If the nodes are primitive values, are represented by persistent unique objects,
+   * or are never encountered more than once, then the identity function (`x => x`)
+   * can be used here.
+   * Otherwise, a custom function that converts the node to a string is
+   * recommended. (`JSON.stringify` can be used for this.)
+   */
+  key: (node: Node) => unknown;
+  /**
+   * This option lets custom functions for managing the Cost values be specified.
+   * This is not necessary to use if the Cost type is a number.
+   * This option is useful if you want a different type of Cost value, such as a tuple of numbers
+   * representing separate resource costs where 1 of an earlier index is worth more than any amount in
+   * further indexes.
+   */
+  costOptions?: CostOptions<Cost>;
+}
+
+/**
+ * The shortest paths between every pair of nodes of a graph.
+ */
+export interface AllPairsShortestPaths<Node, Cost> {
+  /**
+   * @returns The cost of the shortest path from `from` to `to`, or `undefined` if
+   * there is no such path or if either node is not part of the graph.
+   */
+  cost(from: Node, to: Node): Cost | undefined;
+  /**
+   * @returns A shortest path from `from` to `to` comprising both nodes, or `undefined`
+   * if there is no such path or if either node is not part of the graph.
+   */
+  path(from: Node, to: Node): Node[] | undefined;
+}
+
+/**
+ * Compute the shortest paths between every pair of nodes using the [Floyd-Warshall
+ * algorithm](https://en.wikipedia.org/wiki/Floyd%E2%80%93Warshall_algorithm).
+ *
+ * The whole distance matrix is computed up front, which takes a time proportional to the cube of
+ * the number of nodes. This is well suited to dense graphs; {@link johnson} is usually faster on
+ * sparse graphs. Negative costs are supported, but a {@link NegativeCycleError} is thrown if the
+ * graph contains a negative cycle.
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals } from "https://deno.land/std@0.189.0/testing/asserts.ts";
+ * import { floydWarshall } from "https://deno.land/x/lazy_pathfinding/directed/all_pairs.ts";
+ *
+ * const shortestPaths = floydWarshall({
+ *   nodes: ["a", "b", "c"],
+ *   successors: (node): [string, number][] => {
+ *     switch (node) {
+ *       case "a":
+ *         return [["b", 1], ["c", 4]];
+ *       case "b":
+ *         return [["c", 2]];
+ *       default:
+ *         return [];
+ *     }
+ *   },
+ *   key: (node) => node,
+ * });
+ *
+ * assertEquals(shortestPaths.cost("a", "c"), 3);
+ * assertEquals(shortestPaths.path("a", "c"), ["a", "b", "c"]);
+ * assertEquals(shortestPaths.path("c", "a"), undefined);
+ * ```
+ */
+export function floydWarshall<Node, Cost = number>(
+  options: AllPairsOptions<Node, Cost>,
+): AllPairsShortestPaths<Node, Cost> {
+  const costOptions = options.costOptions ??
+    numberCostOptions as CostOptions<unknown> as CostOptions<Cost>;
+
+  const { nodes, indexesByKey } = indexNodes(options);
+  const n = nodes.length;
+
+  // costs[i][j] is the cost of the best path found from node i to node j, and
+  // nextIndexes[i][j] is the index of the node following node i on it.
+  const costs: (Cost | undefined)[][] = nodes.map(() =>
+    new Array<Cost | undefined>(n)
+  );
+  const nextIndexes: number[][] = nodes.map(() => new Array<number>(n));
+  for (let i = 0; i < n; i++) {
+    costs[i][i] = costOptions.zero;
+    nextIndexes[i][i] = i;
+  }
+  for (let i = 0; i < n; i++) {
+    for (const [successor, moveCost] of options.successors(nodes[i])) {
+      const j = indexesByKey.get(options.key(successor));
+      if (j === undefined) {
+        continue;
+      }
+      const cost = costs[i][j];
+      if (cost === undefined || costOptions.compareFn(cost, moveCost) > 0) {
+        costs[i][j] = moveCost;
+        nextIndexes[i][j] = j;
+      }
+    }
+  }
+
+  for (let k = 0; k < n; k++) {
+    const costsK = costs[k];
+    for (let i = 0; i < n; i++) {
+      const costsI = costs[i];
+      const costIK = costsI[k];
+      if (costIK === undefined) {
+        continue;
+      }
+      for (let j = 0; j < n; j++) {
+        const costKJ = costsK[j];
+        if (costKJ === undefined) {
+          continue;
+        }
+        const newCost = costOptions.add(costIK, costKJ);
+        const costIJ = costsI[j];
+        if (
+          costIJ === undefined || costOptions.compareFn(costIJ, newCost) > 0
+        ) {
+          costsI[j] = newCost;
+          nextIndexes[i][j] = nextIndexes[i][k];
+        }
+      }
+    }
+  }
+
+  for (let i = 0; i < n; i++) {
+    if (costOptions.compareFn(costs[i][i]!, costOptions.zero) < 0) {
+      throw new NegativeCycleError(
+        findNegativeCycle(options, nodes[i], indexesByKey)!,
+      );
+    }
+  }
+
+  return {
+    cost(from, to) {
+      const i = indexesByKey.get(options.key(from));
+      const j = indexesByKey.get(options.key(to));
+      if (i === undefined || j === undefined) {
+        return undefined;
+      }
+      return costs[i][j];
+    },
+    path(from, to) {
+      let i = indexesByKey.get(options.key(from));
+      const j = indexesByKey.get(options.key(to));
+      if (i === undefined || j === undefined || costs[i][j] === undefined) {
+        return undefined;
+      }
+      const path = [nodes[i]];
+      while (i !== j) {
+        i = nextIndexes[i][j];
+        path.push(nodes[i]);
+      }
+      return path;
+    },
+  };
+}
+
+/**
+ * Compute the shortest paths between every pair of nodes using [Johnson's
+ * algorithm](https://en.wikipedia.org/wiki/Johnson%27s_algorithm).
+ *
+ * If the graph contains negative costs, the edges are first reweighted using {@link bellmanFord}
+ * so that {@link dijkstraAll} can be used from every node. This requires
+ * {@link CostOptions.subtract} to be set when custom cost options are used. A
+ * {@link NegativeCycleError} is thrown if the graph contains a negative cycle.
+ *
+ * The shortest paths from a given node are only computed the first time that node is queried
+ * as the `from` node. This is well suited to sparse graphs; {@link floydWarshall} is usually
+ * faster on dense graphs.
+ *
+ * # Example
+ *
+ * ```ts
+ * const shortestPaths = johnson({
+ *   nodes: ["a", "b", "c"],
+ *   successors: (node): [string, number][] => {
+ *     switch (node) {
+ *       case "a":
+ *         return [["b", 1], ["c", 4]];
+ *       case "b":
+ *         return [["c", -2]];
+ *       default:
+ *         return [];
+ *     }
+ *   },
+ *   key: (node) => node,
+ * });
+ *
+ * assertEquals(shortestPaths.cost("a", "c"), -1);
+ * assertEquals(shortestPaths.path("a", "c"), ["a", "b", "c"]);
+ * ```
+ */
+export function johnson<Node, Cost = number>(
+  options: AllPairsOptions<Node, Cost>,
+): AllPairsShortestPaths<Node, Cost> {
+  const costOptions = options.costOptions ??
+    numberCostOptions as CostOptions<unknown> as CostOptions<Cost>;
+
+  const { nodes, indexesByKey } = indexNodes(options);
+  const successors = (node: Node): [Node, Cost][] =>
+    Array.from(options.successors(node))
+      .filter(([successor]) => indexesByKey.has(options.key(successor)));
+
+  // Compute the potential of every node as its distance from a virtual node
+  // which has an edge of zero cost to every node.
+  const virtualStart = Symbol("virtual start");
+  const [potentialEntries, negativeCycle] = bellmanFord<
+    Node | typeof virtualStart,
+    Cost
+  >({
+    start: virtualStart,
+    successors: (node) =>
+      node === virtualStart
+        ? nodes.map((node) => [node, costOptions.zero])
+        : successors(node),
+    key: (node) => node === virtualStart ? virtualStart : options.key(node),
+    costOptions,
+  });
+  if (negativeCycle) {
+    throw new NegativeCycleError(negativeCycle as Node[]);
+  }
+  const potentials = new Map<unknown, Cost>();
+  for (const [key, entry] of potentialEntries) {
+    if (
+      key !== virtualStart &&
+      costOptions.compareFn(entry.cost, costOptions.zero) !== 0
+    ) {
+      potentials.set(key, entry.cost);
+    }
+  }
+  const { subtract } = costOptions;
+  if (potentials.size !== 0 && !subtract) {
+    throw new Error(
+      "costOptions.subtract is required when the graph has negative costs",
+    );
+  }
+  const potential = (nodeKey: unknown): Cost =>
+    potentials.get(nodeKey) ?? costOptions.zero;
+  // The reweighted cost of a path is its original cost plus the potential of its
+  // first node minus the potential of its last node, which doesn't change which
+  // paths are the shortest and makes every cost non-negative.
+  const reweight = (cost: Cost, fromKey: unknown, toKey: unknown): Cost =>
+    potentials.size === 0
+      ? cost
+      : costOptions.add(cost, subtract!(potential(fromKey), potential(toKey)));
+
+  const rows = new Map<
+    unknown,
+    Map<unknown, DijkstraEncounteredNodeEntry<Node, Cost>>
+  >();
+  const getRow = (fromKey: unknown) => {
+    let row = rows.get(fromKey);
+    if (!row) {
+      row = dijkstraAll<Node, Cost>({
+        start: nodes[indexesByKey.get(fromKey)!],
+        successors: (node) => {
+          const nodeKey = options.key(node);
+          return successors(node).map(([successor, moveCost]) => [
+            successor,
+            reweight(moveCost, nodeKey, options.key(successor)),
+          ]);
+        },
+        key: options.key,
+        costOptions,
+      });
+      rows.set(fromKey, row);
+    }
+    return row;
+  };
+
+  return {
+    cost(from, to) {
+      const fromKey = options.key(from);
+      const toKey = options.key(to);
+      if (!indexesByKey.has(fromKey) || !indexesByKey.has(toKey)) {
+        return undefined;
+      }
+      const entry = getRow(fromKey).get(toKey);
+      if (!entry) {
+        return undefined;
+      }
+      return potentials.size === 0 ? entry.cost : costOptions.add(
+        entry.cost,
+        subtract!(potential(toKey), potential(fromKey)),
+      );
+    },
+    path(from, to) {
+      const fromKey = options.key(from);
+      const toKey = options.key(to);
+      if (!indexesByKey.has(fromKey) || !indexesByKey.has(toKey)) {
+        return undefined;
+      }
+      const row = getRow(fromKey);
+      if (!row.has(toKey)) {
+        return undefined;
+      }
+      return buildPath(toKey, row);
+    },
+  };
+}
+
+function indexNodes<Node>(
+  options: Pick<AllPairsOptions<Node>, "nodes" | "key">,
+): { nodes: Node[]; indexesByKey: Map<unknown, number> } {
+  const nodes: Node[] = [];
+  const indexesByKey = new Map<unknown, number>();
+  for (const node of options.nodes) {
+    const nodeKey = options.key(node);
+    if (!indexesByKey.has(nodeKey)) {
+      indexesByKey.set(nodeKey, nodes.length);
+      nodes.push(node);
+    }
+  }
+  return { nodes, indexesByKey };
+}
+
+function findNegativeCycle<Node, Cost>(
+  options: AllPairsOptions<Node, Cost>,
+  start: Node,
+  indexesByKey: ReadonlyMap<unknown, number>,
+): Node[] | undefined {
+  return bellmanFord({
+    start,
+    successors: (node) =>
+      Array.from(options.successors(node))
+        .filter(([successor]) => indexesByKey.has(options.key(successor))),
+    key: options.key,
+    costOptions: options.costOptions,
+  })[1];
+}
@@ -0,0 +1,129 @@
+import {
+  assertEquals,
+  assertThrows,
+} from "https://deno.land/std@0.189.0/testing/asserts.ts";
+import { aStar } from "./a_star.ts";
+import { araStar } from "./ara_star.ts";
+
+type Pos = [number, number];
+
+Deno.test("araStar() doc example", () => {
+  const goal: Pos = [20, 0];
+  let bestCost = Infinity;
+  for (
+    const [path, cost, weight] of araStar<Pos>({
+      start: [0, 0],
+      successors: ([x, y]) =>
+        ([[x + 1, y], [x - 1, y], [x, y + 1], [x, y - 1]] as Pos[])
+          // A wall at x = 10 with a gap at y = -5.
+          .filter(([x, y]) => x !== 10 || y === -5)
+          .map((p) => [p, 1]),
+      heuristic: ([x, y]) => Math.abs(goal[0] - x) + Math.abs(goal[1] - y),
+      success: ([x, y]) => x === goal[0] && y === goal[1],
+      key: ([x, y]) => x + "," + y,
+      weight: 3,
+      weightStep: 1,
+    })
+  ) {
+    assertEquals(path[0], [0, 0]);
+    assertEquals(cost <= bestCost, true);
+    bestCost = cost;
+    if (weight === 1) {
+      assertEquals(cost, 30);
+    }
+  }
+  assertEquals(bestCost, 30);
+});
+
+Deno.test("araStar() and weighted aStar() on random grids", () => {
+  const SIZE = 25;
+  // A deterministic pseudo-random sequence.
+  let seed = 3;
+  const random = () => {
+    seed = (seed * 1103515245 + 12345) % 2147483648;
+    return seed / 2147483648;
+  };
+  for (let i = 0; i < 20; i++) {
+    const costs = new Map<string, number>();
+    for (let x = 0; x < SIZE; x++) {
+      for (let y = 0; y < SIZE; y++) {
+        if (random() < 0.25) {
+          costs.set(x + "," + y, 1 + Math.floor(random() * 5));
+        }
+      }
+    }
+    const goal: Pos = [SIZE - 1, SIZE - 1];
+    const options = {
+      start: [0, 0] as Pos,
+      successors: ([x, y]: Pos): [Pos, number][] =>
+        ([[x + 1, y], [x - 1, y], [x, y + 1], [x, y - 1]] as Pos[])
+          .filter(([x, y]) => x >= 0 && x < SIZE && y >= 0 && y < SIZE)
+          .map((p) => [p, costs.get(p.join(",")) ?? 1]),
+      heuristic: ([x, y]: Pos) => Math.abs(goal[0] - x) + Math.abs(goal[1] - y),
+      success: ([x, y]: Pos) => x === goal[0] && y === goal[1],
+      key: ([x, y]: Pos) => x + "," + y,
+    };
+    const [, optimalCost] = aStar(options)!;
+
+    const [, weightedCost] = aStar({ ...options, weight: 2 })!;
+    assertEquals(weightedCost >= optimalCost, true);
+    assertEquals(weightedCost <= optimalCost * 2, true);
+
+    const solutions = Array.from(araStar({ ...options, weight: 2.5 }));
+    assertEquals(solutions.map(([, , weight]) => weight), [2.5, 2, 1.5, 1]);
+    let previousCost = Infinity;
+    for (const [path, cost, weight] of solutions) {
+      assertEquals(cost <= previousCost, true);
+      assertEquals(cost <= optimalCost * weight, true);
+      assertEquals(path[0], [0, 0]);
+      assertEquals(path[path.length - 1], goal);
+      let pathCost = 0;
+      for (let j = 1; j < path.length; j++) {
+        pathCost += costs.get(path[j].join(",")) ?? 1;
+      }
+      assertEquals(pathCost, cost);
+      previousCost = cost;
+    }
+    assertEquals(previousCost, optimalCost);
+  }
+});
+
+Deno.test("araStar() unreachable", () => {
+  const solutions = Array.from(araStar({
+    start: 0,
+    successors: (n) => n < 5 ? [[n + 1, 1]] : [],
+    heuristic: () => 0,
+    success: (n) => n === 6,
+    key: (n) => n,
+    weight: 2,
+  }));
+  assertEquals(solutions, []);
+});
+
+Deno.test("aStar() weight validation", () => {
+  const options = {
+    start: 0,
+    successors: (n: number): [number, number][] => [[n + 1, 1]],
+    heuristic: (n: number) => 3 - n,
+    success: (n: number) => n === 3,
+    key: (n: number) => n,
+  };
+  assertEquals(aStar({ ...options, weight: 1.5 }), [[0, 1, 2, 3], 3]);
+  assertThrows(() => aStar({ ...options, weight: 0.5 }), RangeError);
+  assertThrows(
+    () =>
+      aStar<number, [number]>({
+        ...options,
+        successors: (n) => [[n + 1, [1]]],
+        heuristic: (n) => [3 - n],
+        costOptions: {
+          zero: [0],
+          add: (a, b) => [a[0] + b[0]],
+          compareFn: (a, b) => a[0] - b[0],
+        },
+        weight: 1.5,
+      }),
+    Error,
+    "costOptions.scale",
+  );
+});
@@ -0,0 +1,241 @@
+import { BinaryHeap } from "https://deno.land/std@0.189.0/collections/binary_heap.ts";
+import { AStarOptions } from "./a_star.ts";
+import { reversePath } from "./_reverse_path.ts";
+import {
+  compareSmallestCostHolders,
+  SmallestCostHolder,
+} from "./_smallest_cost_holder.ts";
+import { getStarts } from "./_starts.ts";
+import { weightedHeuristic } from "./_weighted_heuristic.ts";
+import { CostOptions, numberCostOptions } from "./cost_options.ts";
+
+export interface AraStarOptions<Node, Cost = number>
+  extends AStarOptions<Node, Cost> {
+  /**
+   * The weight used to find the first solution, as in the `weight` option of `aStar`.
+   */
+  weight: number;
+  /**
+   * How much the weight is decreased after each solution, until it reaches `1`.
+   * Defaults to `0.5`.
+   */
+  weightStep?: number;
+}
+
+/**
+ * Compute progressively better paths using the [ARA* search
+ * algorithm](https://papers.nips.cc/paper/2003/hash/ee8fe9093fbbb687bef15a38facc44d2-Abstract.html)
+ * (Anytime Repairing A*).
+ *
+ * A first path is quickly found with the heuristic multiplied by {@link AraStarOptions.weight},
+ * like `aStar` does with its `weight` option. Then the weight is decreased by
+ * {@link AraStarOptions.weightStep} and the search is resumed, reusing the previous work, to
+ * find a better path, until the weight reaches `1` and the returned path is a shortest path.
+ * This lets the search be stopped whenever a good enough path was found or the time runs out.
+ *
+ * Multiple equivalent nodes (determined by the {@link AStarOptions.key()} function) will never
+ * be included twice in a path.
+ *
+ * The returned iterable is lazy and yields a path starting from {@link AStarOptions.start} (or from
+ * any of {@link AStarOptions.starts}) up to a node for which {@link AStarOptions.success()} returns
+ * `true` for each weight, along with its total cost and the weight used to find it. The cost of each
+ * path is at most the weight times the cost of a shortest path, and is never more than the cost of
+ * the previous path. Nothing is yielded if no successful path exists. Each path comprises both the
+ * start and end node.
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals } from "https://deno.land/std@0.189.0/testing/asserts.ts";
+ * import { araStar } from "https://deno.land/x/lazy_pathfinding/directed/ara_star.ts";
+ *
+ * type Pos = [number, number];
+ *
+ * const goal: Pos = [20, 0];
+ * let bestCost = Infinity;
+ * for (
+ *   const [path, cost, weight] of araStar<Pos>({
+ *     start: [0, 0],
+ *     successors: ([x, y]) =>
+ *       ([[x + 1, y], [x - 1, y], [x, y + 1], [x, y - 1]] as Pos[])
+ *         // A wall at x = 10 with a gap at y = -5.
+ *         .filter(([x, y]) => x !== 10 || y === -5)
+ *         .map((p) => [p, 1]),
+ *     heuristic: ([x, y]) => Math.abs(goal[0] - x) + Math.abs(goal[1] - y),
+ *     success: ([x, y]) => x === goal[0] && y === goal[1],
+ *     key: ([x, y]) => x + "," + y,
+ *     weight: 3,
+ *     weightStep: 1,
+ *   })
+ * ) {
+ *   assertEquals(path[0], [0, 0]);
+ *   assertEquals(cost <= bestCost, true);
+ *   bestCost = cost;
+ *   if (weight === 1) {
+ *     assertEquals(cost, 30);
+ *   }
+ * }
+ * ```
+ */
+export function* araStar<Node, Cost = number>(
+  options: AraStarOptions<Node, Cost>,
+): Generator<[Node[], Cost, number], void, undefined> {
+  const costOptions = options.costOptions ??
+    numberCostOptions as CostOptions<unknown> as CostOptions<Cost>;
+  const weightStep = options.weightStep ?? 0.5;
+  if (!(weightStep > 0)) {
+    throw new RangeError("The weight step must be greater than 0");
+  }
+
+  interface EncounteredNodeEntry<Node, Cost> {
+    node: Node;
+    /**
+     * Either the key of the parent or `undefined`.
+     */
+    parentKey: unknown;
+    cost: Cost;
+  }
+  const encounteredNodes = new Map<unknown, EncounteredNodeEntry<Node, Cost>>();
+  // The nodes which need to be expanded, the ones which have been expanded with the
+  // current weight, and the ones which got cheaper after being expanded with the
+  // current weight and will only be expanded again with the next weight.
+  const openNodeKeys = new Set<unknown>();
+  const closedNodeKeys = new Set<unknown>();
+  const inconsistentNodeKeys = new Set<unknown>();
+  let successNodeKey: unknown;
+
+  let weight = options.weight;
+  let heuristic = weightedHeuristic(options, costOptions, weight);
+  const createToSee = () =>
+    new BinaryHeap<SmallestCostHolder<Cost>>((a, b) =>
+      compareSmallestCostHolders(costOptions, a, b)
+    );
+  let toSee = createToSee();
+  const open = (nodeKey: unknown, node: Node, cost: Cost) => {
+    openNodeKeys.add(nodeKey);
+    toSee.push({
+      estimatedCost: costOptions.add(cost, heuristic(node)),
+      cost,
+      nodeKey,
+    });
+  };
+  /**
+   * Record the cost of the node if it is better than the known one.
+   */
+  const reach = (
+    nodeKey: unknown,
+    node: Node,
+    parentKey: unknown,
+    cost: Cost,
+  ) => {
+    if (
+      options.maxCost !== undefined &&
+      costOptions.compareFn(cost, options.maxCost) > 0
+    ) {
+      return;
+    }
+    const encounteredNodeEntry = encounteredNodes.get(nodeKey);
+    if (
+      encounteredNodeEntry &&
+      costOptions.compareFn(encounteredNodeEntry.cost, cost) <= 0
+    ) {
+      return;
+    }
+    encounteredNodes.set(nodeKey, { node, parentKey, cost });
+    if (options.success(node)) {
+      // Paths going through a successful node can't lead to a better successful
+      // node, so it is never expanded.
+      if (
+        successNodeKey === undefined ||
+        costOptions.compareFn(
+            encounteredNodes.get(successNodeKey)!.cost,
+            cost,
+          ) > 0
+      ) {
+        successNodeKey = nodeKey;
+      }
+    } else if (closedNodeKeys.has(nodeKey)) {
+      inconsistentNodeKeys.add(nodeKey);
+    } else {
+      open(nodeKey, node, cost);
+    }
+  };
+  /**
+   * Expand the nodes until no node could lead to a better path than the current one
+   * with the current weight.
+   */
+  const improvePath = () => {
+    while (true) {
+      const smallestCostHolder = toSee.peek();
+      if (!smallestCostHolder) {
+        break;
+      }
+      const { nodeKey } = smallestCostHolder;
+      const { node, cost } = encounteredNodes.get(nodeKey)!;
+      // We may have inserted a node several time into the binary heap if we found
+      // a better way to access it. Ensure that we are currently dealing with the
+      // best path and discard the others.
+      if (
+        !openNodeKeys.has(nodeKey) ||
+        costOptions.compareFn(smallestCostHolder.cost, cost) > 0
+      ) {
+        toSee.pop();
+        continue;
+      }
+      if (
+        successNodeKey !== undefined &&
+        costOptions.compareFn(
+            encounteredNodes.get(successNodeKey)!.cost,
+            smallestCostHolder.estimatedCost,
+          ) <= 0
+      ) {
+        break;
+      }
+      toSee.pop();
+      openNodeKeys.delete(nodeKey);
+      closedNodeKeys.add(nodeKey);
+      for (const [successor, moveCost] of options.successors(node)) {
+        reach(
+          options.key(successor),
+          successor,
+          nodeKey,
+          costOptions.add(cost, moveCost),
+        );
+      }
+    }
+  };
+
+  for (const [start, cost] of getStarts(options, costOptions)) {
+    reach(options.key(start), start, undefined, cost);
+  }
+  while (true) {
+    improvePath();
+    if (successNodeKey === undefined) {
+      return;
+    }
+    const path = reversePath(
+      encounteredNodes,
+      (e) => e.parentKey,
+      successNodeKey,
+    )
+      .map((nodeKey) => encounteredNodes.get(nodeKey)!.node);
+    yield [path, encounteredNodes.get(successNodeKey)!.cost, weight];
+    if (weight <= 1) {
+      return;
+    }
+
+    weight = Math.max(1, weight - weightStep);
+    heuristic = weightedHeuristic(options, costOptions, weight);
+    for (const nodeKey of inconsistentNodeKeys) {
+      openNodeKeys.add(nodeKey);
+    }
+    inconsistentNodeKeys.clear();
+    closedNodeKeys.clear();
+    // The estimated costs depend on the weight, so the binary heap is rebuilt.
+    toSee = createToSee();
+    for (const nodeKey of openNodeKeys) {
+      const { node, cost } = encounteredNodes.get(nodeKey)!;
+      open(nodeKey, node, cost);
+    }
+  }
+}
@@ -0,0 +1,62 @@
+import { assertEquals } from "https://deno.land/std@0.189.0/testing/asserts.ts";
+import { beamSearch } from "./beam_search.ts";
+
+type Pos = [number, number];
+
+Deno.test("beamSearch() doc example", () => {
+  const goal: Pos = [3, 4];
+
+  const result = beamSearch<Pos>({
+    start: [0, 0],
+    successors: ([x, y]) =>
+      ([[x + 1, y], [x - 1, y], [x, y + 1], [x, y - 1]] as Pos[])
+        .map((p) => [p, 1]),
+    heuristic: ([x, y]) => Math.abs(goal[0] - x) + Math.abs(goal[1] - y),
+    success: ([x, y]) => x === goal[0] && y === goal[1],
+    key: ([x, y]) => x + "," + y,
+    beamWidth: 2,
+  });
+
+  assertEquals(result![1], 7);
+});
+
+Deno.test("beamSearch() beam width", () => {
+  // The straight way to the goal is a dead end, so a narrow beam misses the
+  // way around it.
+  const grid = [
+    ".....",
+    ".###.",
+    "...#.",
+    ".###.",
+    ".....",
+  ];
+  const goal: Pos = [4, 2];
+  const options = {
+    start: [0, 2] as Pos,
+    successors: ([x, y]: Pos): [Pos, number][] =>
+      ([[x + 1, y], [x - 1, y], [x, y + 1], [x, y - 1]] as Pos[])
+        .filter(([x, y]) => grid[y]?.[x] === ".")
+        .map((p) => [p, 1]),
+    heuristic: ([x, y]: Pos) => Math.abs(goal[0] - x) + Math.abs(goal[1] - y),
+    success: ([x, y]: Pos) => x === goal[0] && y === goal[1],
+    key: ([x, y]: Pos) => x + "," + y,
+  };
+  assertEquals(beamSearch({ ...options, beamWidth: 1 }), undefined);
+  const [path, cost] = beamSearch({ ...options, beamWidth: 3 })!;
+  assertEquals(path[0], [0, 2]);
+  assertEquals(path[path.length - 1], goal);
+  assertEquals(cost, 8);
+});
+
+Deno.test("beamSearch() cheapest success at the same depth", () => {
+  const result = beamSearch({
+    start: "a",
+    successors: (n): [string, number][] =>
+      n === "a" ? [["b", 5], ["c", 2], ["d", 1]] : [],
+    heuristic: () => 0,
+    success: (n) => n !== "a" && n !== "d",
+    key: (n) => n,
+    beamWidth: 1,
+  });
+  assertEquals(result, [["a", "c"], 2]);
+});
@@ -0,0 +1,153 @@
+import { AStarOptions } from "./a_star.ts";
+import { reversePath } from "./_reverse_path.ts";
+import { getStarts } from "./_starts.ts";
+import { CostOptions, numberCostOptions } from "./cost_options.ts";
+
+export interface BeamSearchOptions<Node, Cost = number>
+  extends AStarOptions<Node, Cost> {
+  /**
+   * The maximum number of nodes kept at each depth.
+   */
+  beamWidth: number;
+}
+
+/**
+ * Compute a path using the [beam search
+ * algorithm](https://en.wikipedia.org/wiki/Beam_search).
+ *
+ * The graph is explored breadth-first, but at each depth only the {@link BeamSearchOptions.beamWidth}
+ * nodes with the smallest {@link AStarOptions.heuristic()} are kept and the other ones are
+ * discarded and never explored again. This bounds the number of nodes explored at each depth,
+ * but the returned path may be far from the shortest one, and no path may be found even though
+ * one exists.
+ *
+ * Multiple equivalent nodes (determined by the {@link AStarOptions.key()} function) will never
+ * be included twice in the path.
+ *
+ * A path starting from {@link AStarOptions.start} (or from any of {@link AStarOptions.starts}) up to a node
+ * for which {@link AStarOptions.success()} returns `true` is computed and returned along with its total cost, or `undefined`
+ * is returned if no successful path was found. The successful node with the smallest cost at the first
+ * depth where one is found is chosen. The returned path comprises both the start and end node.
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals } from "https://deno.land/std@0.189.0/testing/asserts.ts";
+ * import { beamSearch } from "https://deno.land/x/lazy_pathfinding/directed/beam_search.ts";
+ *
+ * type Pos = [number, number];
+ *
+ * const goal: Pos = [3, 4];
+ *
+ * const result = beamSearch<Pos>({
+ *   start: [0, 0],
+ *   successors: ([x, y]) =>
+ *     ([[x + 1, y], [x - 1, y], [x, y + 1], [x, y - 1]] as Pos[])
+ *       .map((p) => [p, 1]),
+ *   heuristic: ([x, y]) => Math.abs(goal[0] - x) + Math.abs(goal[1] - y),
+ *   success: ([x, y]) => x === goal[0] && y === goal[1],
+ *   key: ([x, y]) => x + "," + y,
+ *   beamWidth: 2,
+ * });
+ *
+ * assertEquals(result![1], 7);
+ * ```
+ */
+export function beamSearch<Node, Cost = number>(
+  options: BeamSearchOptions<Node, Cost>,
+): [Node[], Cost] | undefined {
+  const costOptions = options.costOptions ??
+    numberCostOptions as CostOptions<unknown> as CostOptions<Cost>;
+
+  interface EncounteredNodeEntry<Node, Cost> {
+    node: Node;
+    /**
+     * Either the key of the parent or `undefined`.
+     */
+    parentKey: unknown;
+    cost: Cost;
+    heuristicCost: Cost;
+  }
+  const encounteredNodes = new Map<unknown, EncounteredNodeEntry<Node, Cost>>();
+
+  /**
+   * Record the node into the next layer if it wasn't encountered at a previous
+   * depth and if it is cheaper than any equivalent node of the next layer.
+   */
+  const reach = (
+    nextLayer: Set<unknown>,
+    node: Node,
+    parentKey: unknown,
+    cost: Cost,
+  ) => {
+    if (
+      options.maxCost !== undefined &&
+      costOptions.compareFn(cost, options.maxCost) > 0
+    ) {
+      return;
+    }
+    const nodeKey = options.key(node);
+    const encounteredNodeEntry = encounteredNodes.get(nodeKey);
+    if (encounteredNodeEntry) {
+      if (
+        !nextLayer.has(nodeKey) ||
+        costOptions.compareFn(encounteredNodeEntry.cost, cost) <= 0
+      ) {
+        return;
+      }
+      encounteredNodeEntry.parentKey = parentKey;
+      encounteredNodeEntry.cost = cost;
+      return;
+    }
+    encounteredNodes.set(nodeKey, {
+      node,
+      parentKey,
+      cost,
+      heuristicCost: options.heuristic(node),
+    });
+    nextLayer.add(nodeKey);
+  };
+
+  let layer = new Set<unknown>();
+  for (const [start, cost] of getStarts(options, costOptions)) {
+    reach(layer, start, undefined, cost);
+  }
+  while (layer.size !== 0) {
+    const entries = Array.from(layer, (nodeKey) => {
+      const entry = encounteredNodes.get(nodeKey)!;
+      return { nodeKey, ...entry };
+    });
+    let successEntry: (typeof entries)[number] | undefined;
+    for (const entry of entries) {
+      if (
+        options.success(entry.node) &&
+        (!successEntry ||
+          costOptions.compareFn(entry.cost, successEntry.cost) < 0)
+      ) {
+        successEntry = entry;
+      }
+    }
+    if (successEntry) {
+      const path = reversePath(
+        encounteredNodes,
+        (e) => e.parentKey,
+        successEntry.nodeKey,
+      )
+        .map((nodeKey) => encounteredNodes.get(nodeKey)!.node);
+      return [path, successEntry.cost];
+    }
+
+    entries.sort((a, b) =>
+      costOptions.compareFn(a.heuristicCost, b.heuristicCost) ||
+      costOptions.compareFn(a.cost, b.cost)
+    );
+    const nextLayer = new Set<unknown>();
+    for (const { nodeKey, node, cost } of entries.slice(0, options.beamWidth)) {
+      for (const [successor, moveCost] of options.successors(node)) {
+        reach(nextLayer, successor, nodeKey, costOptions.add(cost, moveCost));
+      }
+    }
+    layer = nextLayer;
+  }
+  return undefined;
+}
@@ -0,0 +1,117 @@
+import { assertEquals } from "https://deno.land/std@0.189.0/testing/asserts.ts";
+import { bellmanFord } from "./bellman_ford.ts";
+import { CostOptions } from "./cost_options.ts";
+import { buildPath, dijkstraAll } from "./dijkstra.ts";
+
+Deno.test("bellmanFord() doc example", () => {
+  // 1 --(4)--> 2 --(-3)--> 3
+  //   --(2)------------->
+  const [encounteredNodes, negativeCycle] = bellmanFord({
+    start: 1,
+    successors: (n): [number, number][] => {
+      switch (n) {
+        case 1:
+          return [[2, 4], [3, 2]];
+        case 2:
+          return [[3, -3]];
+        default:
+          return [];
+      }
+    },
+    key: (n) => n,
+  });
+  assertEquals(negativeCycle, undefined);
+  assertEquals(encounteredNodes.get(3), {
+    node: 3,
+    parentKey: 2,
+    cost: 1,
+  });
+  assertEquals(buildPath(3, encounteredNodes), [1, 2, 3]);
+});
+
+Deno.test("bellmanFord() matches dijkstraAll() without negative costs", () => {
+  const options = {
+    start: 1,
+    successors: (n: number): [number, number][] =>
+      n <= 20
+        ? ([[n * 2, n % 3 + 1], [n + 3, 2], [n - 1, 1]] as [number, number][])
+          .filter(([m]) => m >= 1)
+        : [],
+    key: (n: number) => n,
+  };
+  const [encounteredNodes, negativeCycle] = bellmanFord(options);
+  const expected = dijkstraAll(options);
+  assertEquals(negativeCycle, undefined);
+  assertEquals(encounteredNodes.size, expected.size);
+  for (const [key, entry] of expected) {
+    assertEquals(encounteredNodes.get(key)!.cost, entry.cost);
+  }
+});
+
+Deno.test("bellmanFord() negative cycle", () => {
+  // 0 -> 1 -> 2 -> 3 -> 1 with the cycle costing -1 in total, and 3 -> 4.
+  const [, negativeCycle] = bellmanFord({
+    start: 0,
+    successors: (n): [number, number][] => {
+      switch (n) {
+        case 0:
+          return [[1, 5]];
+        case 1:
+          return [[2, 2]];
+        case 2:
+          return [[3, -4]];
+        case 3:
+          return [[1, 1], [4, 1]];
+        default:
+          return [];
+      }
+    },
+    key: (n) => n,
+  });
+  const rotations = [[1, 2, 3], [2, 3, 1], [3, 1, 2]];
+  assertEquals(
+    rotations.some((rotation) =>
+      JSON.stringify(rotation) === JSON.stringify(negativeCycle)
+    ),
+    true,
+  );
+});
+
+Deno.test("bellmanFord() negative self loop", () => {
+  const [, negativeCycle] = bellmanFord({
+    start: "a",
+    successors: (n): [string, number][] => n === "a" ? [["b", 1]] : [["b", -1]],
+    key: (n) => n,
+  });
+  assertEquals(negativeCycle, ["b"]);
+});
+
+Deno.test("bellmanFord() zero cost cycle", () => {
+  const [encounteredNodes, negativeCycle] = bellmanFord({
+    start: 0,
+    successors: (n): [number, number][] => [[(n + 1) % 4, n === 3 ? -3 : 1]],
+    key: (n) => n,
+  });
+  assertEquals(negativeCycle, undefined);
+  assertEquals(encounteredNodes.get(3)!.cost, 3);
+});
+
+Deno.test("bellmanFord() with object nodes and custom costs", () => {
+  type Cost = [number, number];
+  const costOptions: CostOptions<Cost> = {
+    zero: [0, 0],
+    add: (a, b) => [a[0] + b[0], a[1] + b[1]],
+    compareFn: (a, b) => a[0] - b[0] || a[1] - b[1],
+  };
+  type Pos = { x: number };
+  const [encounteredNodes, negativeCycle] = bellmanFord<Pos, Cost>({
+    start: { x: 0 },
+    successors: ({ x }): [Pos, Cost][] =>
+      x < 3 ? [[{ x: x + 1 }, [0, 1]], [{ x: x + 2 }, [0, -1]]] : [],
+    key: ({ x }) => x,
+    costOptions,
+  });
+  assertEquals(negativeCycle, undefined);
+  assertEquals(encounteredNodes.get(4)!.cost, [0, -2]);
+  assertEquals(buildPath(4, encounteredNodes), [{ x: 0 }, { x: 2 }, { x: 4 }]);
+});
@@ -0,0 +1,187 @@
+import { getStarts, hasSeveralStarts, withStartKey } from "./_starts.ts";
+import { CostOptions, numberCostOptions } from "./cost_options.ts";
+import { DijkstraEncounteredNodeEntry, DijkstraOptions } from "./dijkstra.ts";
+
+/**
+ * Thrown by functions that can't give a result when a negative cycle is reachable.
+ */
+export class NegativeCycleError<Node> extends Error {
+  /**
+   * A negative cycle, as a list of nodes where each node is followed by its successor
+   * in the cycle, and the last node leads back to the first one.
+   */
+  cycle: Node[];
+
+  constructor(cycle: Node[]) {
+    super("A negative cycle was found");
+    this.name = "NegativeCycleError";
+    this.cycle = cycle;
+  }
+}
+
+/**
+ * Determine all reachable nodes from a starting point as well as the minimum cost to
+ * reach them and a possible optimal parent node using the [Bellman-Ford
+ * algorithm](https://en.wikipedia.org/wiki/Bellman%E2%80%93Ford_algorithm) (in its queue-based
+ * form, also known as the shortest path faster algorithm).
+ *
+ * Unlike {@link dijkstraAll}, this function supports negative costs. Only nodes reachable from the
+ * start node are explored, but every one of them may be explored multiple times, and the number of
+ * reachable nodes must be finite.
+ *
+ * The result is a pair containing:
+ *
+ * - A map where the key of every reachable node is associated with the node value, an optimal
+ * parent node, the start node it was reached from, and a cost from that start node, in the same
+ * format as {@link dijkstraAll}. The
+ * {@link buildPath} function can be used with it to build a full path from the starting point to
+ * one of the reachable targets.
+ * - `undefined`, or a negative cycle if one is reachable from the start node. In that case there is
+ * no minimum cost for the nodes reachable from the cycle, and the map only reflects the progress
+ * made until the cycle was found. The cycle is given as a list of nodes where each node is
+ * followed by its successor in the cycle, and the last node leads back to the first one.
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals } from "https://deno.land/std@0.189.0/testing/asserts.ts";
+ * import { bellmanFord } from "https://deno.land/x/lazy_pathfinding/directed/bellman_ford.ts";
+ *
+ * // 1 --(4)--> 2 --(-3)--> 3
+ * //   --(2)------------->
+ * const [encounteredNodes, negativeCycle] = bellmanFord({
+ *   start: 1,
+ *   successors: (n): [number, number][] => {
+ *     switch (n) {
+ *       case 1:
+ *         return [[2, 4], [3, 2]];
+ *       case 2:
+ *         return [[3, -3]];
+ *       default:
+ *         return [];
+ *     }
+ *   },
+ *   key: (n) => n,
+ * });
+ * assertEquals(negativeCycle, undefined);
+ * assertEquals(encounteredNodes.get(3), {
+ *   node: 3,
+ *   parentKey: 2,
+ *   cost: 1,
+ * });
+ * ```
+ */
+export function bellmanFord<Node, Cost = number>(
+  options: Omit<
+    DijkstraOptions<Node, Cost>,
+    "success" | "maxCost" | "tieBreak"
+  >,
+): [
+  Map<unknown, DijkstraEncounteredNodeEntry<Node, Cost>>,
+  Node[] | undefined,
+] {
+  const costOptions = options.costOptions ??
+    numberCostOptions as CostOptions<unknown> as CostOptions<Cost>;
+
+  const encounteredNodes = new Map<
+    unknown,
+    DijkstraEncounteredNodeEntry<Node, Cost>
+  >();
+  // The number of edges in the best path found to each node. A path with at least
+  // as many edges as there are nodes must contain a cycle.
+  const pathLengths = new Map<unknown, number>();
+  let toSee: unknown[] = [];
+  let toSeeIndex = 0;
+  const toSeeSet = new Set<unknown>();
+  const recordStartKey = hasSeveralStarts(options);
+  for (const [start, cost] of getStarts(options, costOptions)) {
+    const startKey = options.key(start);
+    const encounteredNodeEntry = encounteredNodes.get(startKey);
+    if (
+      !encounteredNodeEntry ||
+      costOptions.compareFn(encounteredNodeEntry.cost, cost) > 0
+    ) {
+      encounteredNodes.set(
+        startKey,
+        withStartKey(
+          { node: start, parentKey: undefined, cost },
+          recordStartKey ? startKey : undefined,
+        ),
+      );
+      pathLengths.set(startKey, 0);
+      if (!toSeeSet.has(startKey)) {
+        toSeeSet.add(startKey);
+        toSee.push(startKey);
+      }
+    }
+  }
+  while (toSeeIndex < toSee.length) {
+    const nodeKey = toSee[toSeeIndex++];
+    toSeeSet.delete(nodeKey);
+    if (toSeeIndex >= 1024 && toSeeIndex * 2 >= toSee.length) {
+      toSee = toSee.slice(toSeeIndex);
+      toSeeIndex = 0;
+    }
+
+    const { node, startKey, cost } = encounteredNodes.get(nodeKey)!;
+    const pathLength = pathLengths.get(nodeKey)!;
+    for (const [successor, moveCost] of options.successors(node)) {
+      const newCost = costOptions.add(cost, moveCost);
+      const successorKey = options.key(successor);
+      const encounteredNodeEntry = encounteredNodes.get(successorKey);
+
+      // if we've never seen this node or encounteredNodeEntry.cost > newCost,
+      // then record this path as the best path to get to get to this node.
+      if (
+        !encounteredNodeEntry ||
+        costOptions.compareFn(encounteredNodeEntry.cost, newCost) > 0
+      ) {
+        encounteredNodes.set(
+          successorKey,
+          withStartKey(
+            { node: successor, parentKey: nodeKey, cost: newCost },
+            startKey,
+          ),
+        );
+        pathLengths.set(successorKey, pathLength + 1);
+        if (pathLength + 1 >= encounteredNodes.size) {
+          const cycle = findParentCycle(encounteredNodes, successorKey);
+          if (cycle) {
+            return [encounteredNodes, cycle];
+          }
+        }
+        if (!toSeeSet.has(successorKey)) {
+          toSeeSet.add(successorKey);
+          toSee.push(successorKey);
+        }
+      }
+    }
+  }
+  return [encounteredNodes, undefined];
+}
+
+/**
+ * Follow the parents starting from the given node and return the cycle found along
+ * the way if any, in the order of the edges.
+ */
+function findParentCycle<Node>(
+  encounteredNodes: ReadonlyMap<
+    unknown,
+    DijkstraEncounteredNodeEntry<Node, unknown>
+  >,
+  nodeKey: unknown,
+): Node[] | undefined {
+  const indexesByKey = new Map<unknown, number>();
+  const keys: unknown[] = [];
+  while (nodeKey !== undefined) {
+    const index = indexesByKey.get(nodeKey);
+    if (index !== undefined) {
+      return keys.slice(index).reverse()
+        .map((nodeKey) => encounteredNodes.get(nodeKey)!.node);
+    }
+    indexesByKey.set(nodeKey, keys.length);
+    keys.push(nodeKey);
+    nodeKey = encounteredNodes.get(nodeKey)!.parentKey;
+  }
+  return undefined;
+}
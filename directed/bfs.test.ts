@@ -0,0 +1,170 @@
+import { assertEquals } from "https://deno.land/std@0.189.0/testing/asserts.ts";
+import { bfs, bfsBidirectional, bfsLayers, bfsReach } from "./bfs.ts";
+
+Deno.test("bfs() doc example", () => {
+  type Pos = [number, number];
+
+  const goal: Pos = [4, 6];
+
+  const result = bfs<Pos>({
+    start: [1, 1],
+    successors: ([x, y]) => [
+      [x + 1, y + 2],
+      [x + 1, y - 2],
+      [x - 1, y + 2],
+      [x - 1, y - 2],
+      [x + 2, y + 1],
+      [x + 2, y - 1],
+      [x - 2, y + 1],
+      [x - 2, y - 1],
+    ],
+    success: (node) => node[0] === goal[0] && node[1] === goal[1],
+    key: (node) => node[0] + "," + node[1],
+  });
+
+  assertEquals(result, [
+    [1, 1],
+    [2, 3],
+    [3, 5],
+    [2, 7],
+    [4, 6],
+  ]);
+});
+
+Deno.test("bfs() start is success", () => {
+  const result = bfs({
+    start: 0,
+    successors: (n) => [n + 1],
+    success: (n) => n === 0,
+    key: (n) => n,
+  });
+  assertEquals(result, [0]);
+});
+
+Deno.test("bfs() with falsy keys", () => {
+  const result = bfs({
+    start: 0,
+    successors: (n) => [n + 1, n + 2],
+    success: (n) => n === 5,
+    key: (n) => n,
+  });
+  assertEquals(result, [0, 1, 3, 5]);
+});
+
+Deno.test("bfs() unreachable", () => {
+  const result = bfs({
+    start: 1,
+    successors: (n) => n <= 4 ? [n * 2, n * 2 + 1] : [],
+    success: (n) => n === 10,
+    key: (n) => n,
+  });
+  assertEquals(result, undefined);
+});
+
+Deno.test("bfsReach() doc example", () => {
+  const reached = Array.from(bfsReach({
+    start: 1,
+    successors: (n) => n <= 4 ? [n * 2, n * 2 + 1] : [],
+    key: (n) => n,
+  }));
+  assertEquals(reached, [1, 2, 3, 4, 5, 6, 7, 8, 9]);
+});
+
+Deno.test("bfsReach() is lazy on an infinite graph", () => {
+  const reached: number[] = [];
+  for (
+    const n of bfsReach({
+      start: 0,
+      successors: (n) => [n - 1, n + 1],
+      key: (n) => n,
+    })
+  ) {
+    reached.push(n);
+    if (reached.length === 5) {
+      break;
+    }
+  }
+  assertEquals(reached, [0, -1, 1, -2, 2]);
+});
+
+Deno.test("bfsLayers() doc example", () => {
+  const layers = Array.from(bfsLayers({
+    start: 1,
+    successors: (n) => n <= 4 ? [n * 2, n * 2 + 1] : [],
+    key: (n) => n,
+  }));
+  assertEquals(layers, [[1], [2, 3], [4, 5, 6, 7], [8, 9]]);
+});
+
+Deno.test("bfsLayers() with cycles", () => {
+  const layers = Array.from(bfsLayers({
+    start: [0, 0],
+    successors: ([x, y]) =>
+      [
+        [x + 1, y],
+        [x - 1, y],
+        [x, y + 1],
+        [x, y - 1],
+      ].filter(([x, y]) => x >= 0 && y >= 0 && x < 2 && y < 2),
+    key: (node) => node.join(","),
+  }));
+  assertEquals(layers, [[[0, 0]], [[1, 0], [0, 1]], [[1, 1]]]);
+});
+
+Deno.test("bfsBidirectional() doc example", () => {
+  const result = bfsBidirectional({
+    start: 1,
+    goal: 12,
+    successors: (n) => [n + 1, n * 2],
+    predecessors: (n) => n % 2 === 0 ? [n - 1, n / 2] : [n - 1],
+    key: (n) => n,
+  });
+  assertEquals(result, [1, 2, 3, 6, 12]);
+});
+
+Deno.test("bfsBidirectional() with object nodes", () => {
+  type Pos = [number, number];
+  const neighbors = ([x, y]: Pos): Pos[] =>
+    ([[x + 1, y], [x - 1, y], [x, y + 1], [x, y - 1]] as Pos[])
+      .filter(([x, y]) => x >= 0 && y >= 0 && x < 5 && y < 5 && x !== 2);
+  const result = bfsBidirectional<Pos>({
+    start: [0, 0],
+    goal: [4, 4],
+    successors: neighbors,
+    predecessors: neighbors,
+    key: (node) => node.join(","),
+  });
+  assertEquals(result, undefined);
+
+  const open = ([x, y]: Pos): Pos[] =>
+    ([[x + 1, y], [x - 1, y], [x, y + 1], [x, y - 1]] as Pos[])
+      .filter(([x, y]) => x >= 0 && y >= 0 && x < 5 && y < 5);
+  const path = bfsBidirectional<Pos>({
+    start: [0, 0],
+    goal: [4, 4],
+    successors: open,
+    predecessors: open,
+    key: (node) => node.join(","),
+  })!;
+  assertEquals(path.length, 9);
+  assertEquals(path[0], [0, 0]);
+  assertEquals(path[8], [4, 4]);
+  for (let i = 1; i < path.length; i++) {
+    assertEquals(
+      Math.abs(path[i][0] - path[i - 1][0]) +
+        Math.abs(path[i][1] - path[i - 1][1]),
+      1,
+    );
+  }
+});
+
+Deno.test("bfsBidirectional() start is goal", () => {
+  const result = bfsBidirectional({
+    start: 3,
+    goal: 3,
+    successors: (n) => [n + 1],
+    predecessors: (n) => [n - 1],
+    key: (n) => n,
+  });
+  assertEquals(result, [3]);
+});
@@ -0,0 +1,309 @@
+import { reversePath } from "./_reverse_path.ts";
+
+export interface BfsOptions<Node> {
+  /**
+   * The starting node.
+   */
+  start: Node;
+  /**
+   * Returns a list of successors for a given node.
+   */
+  successors: (node: Node) => Iterable<Node>;
+  /**
+   * Checks whether the goal has been reached. It is not a node as some
+   * problems require a dynamic solution instead of a fixed node.
+   */
+  success: (node: Node) => boolean;
+  /**
+   * A function that returns a unique key for a node. Equal nodes must return keys
+   * that are equal.
+   * If the nodes are primitive values, are represented by persistent unique objects,
+   * or are never encountered more than once, then the identity function (`x => x`)
+   * can be used here.
+   * Otherwise, a custom function that converts the node to a string is
+   * recommended. (`JSON.stringify` can be used for this.)
+   */
+  key: (node: Node) => unknown;
+}
+
+/**
+ * Compute a shortest path using the [breadth-first search
+ * algorithm](https://en.wikipedia.org/wiki/Breadth-first_search).
+ *
+ * Every edge is considered to have the same cost, so the returned path is the one
+ * with the fewest steps. Multiple equivalent nodes (determined by the {@link BfsOptions.key()}
+ * function) will never be included twice in the path.
+ *
+ * The shortest path starting from {@link BfsOptions.start} up to a node for which {@link BfsOptions.success()} returns `true`
+ * is computed and returned, or `undefined` is returned if no successful path was found. The
+ * returned path comprises both the start and end node.
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals } from "https://deno.land/std@0.189.0/testing/asserts.ts";
+ * import { bfs } from "https://deno.land/x/lazy_pathfinding/directed/bfs.ts";
+ *
+ * type Pos = [number, number];
+ *
+ * const goal: Pos = [4, 6];
+ *
+ * const result = bfs<Pos>({
+ *   start: [1, 1],
+ *   successors: ([x, y]) => [
+ *     [x + 1, y + 2],
+ *     [x + 1, y - 2],
+ *     [x - 1, y + 2],
+ *     [x - 1, y - 2],
+ *     [x + 2, y + 1],
+ *     [x + 2, y - 1],
+ *     [x - 2, y + 1],
+ *     [x - 2, y - 1],
+ *   ],
+ *   success: (node) => node[0] === goal[0] && node[1] === goal[1],
+ *   key: (node) => node[0] + "," + node[1],
+ * });
+ *
+ * assertEquals(result!.length, 5);
+ * ```
+ */
+export function bfs<Node>(options: BfsOptions<Node>): Node[] | undefined {
+  interface EncounteredNodeEntry<Node> {
+    node: Node;
+    /**
+     * Either the key of the parent or `undefined`.
+     */
+    parentKey: unknown;
+  }
+  const startKey = options.key(options.start);
+  const encounteredNodes = new Map<unknown, EncounteredNodeEntry<Node>>();
+  encounteredNodes.set(startKey, {
+    node: options.start,
+    parentKey: undefined,
+  });
+  const toSee: unknown[] = [startKey];
+  for (let i = 0; i < toSee.length; i++) {
+    const nodeKey = toSee[i];
+    const { node } = encounteredNodes.get(nodeKey)!;
+    if (options.success(node)) {
+      return reversePath(encounteredNodes, (e) => e.parentKey, nodeKey)
+        .map((nodeKey) => encounteredNodes.get(nodeKey)!.node);
+    }
+    for (const successor of options.successors(node)) {
+      const successorKey = options.key(successor);
+      if (!encounteredNodes.has(successorKey)) {
+        encounteredNodes.set(successorKey, {
+          node: successor,
+          parentKey: nodeKey,
+        });
+        toSee.push(successorKey);
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Visit all nodes that are reachable from a start node using the [breadth-first search
+ * algorithm](https://en.wikipedia.org/wiki/Breadth-first_search).
+ *
+ * The returned iterable is lazy: the successors of a node are only computed as the
+ * iteration progresses. Nodes are yielded in the order they are discovered, starting
+ * with {@link BfsOptions.start}, so each node is yielded no earlier than any node closer
+ * to the start. Multiple equivalent nodes (determined by the {@link BfsOptions.key()}
+ * function) are only yielded once.
+ *
+ * # Example
+ *
+ * ```ts
+ * const reached = Array.from(bfsReach({
+ *   start: 1,
+ *   successors: (n) => n <= 4 ? [n * 2, n * 2 + 1] : [],
+ *   key: (n) => n,
+ * }));
+ * assertEquals(reached, [1, 2, 3, 4, 5, 6, 7, 8, 9]);
+ * ```
+ */
+export function* bfsReach<Node>(
+  options: Omit<BfsOptions<Node>, "success">,
+): Generator<Node, void, undefined> {
+  const seen = new Set<unknown>([options.key(options.start)]);
+  const toSee: Node[] = [options.start];
+  yield options.start;
+  for (let i = 0; i < toSee.length; i++) {
+    for (const successor of options.successors(toSee[i])) {
+      const successorKey = options.key(successor);
+      if (!seen.has(successorKey)) {
+        seen.add(successorKey);
+        toSee.push(successor);
+        yield successor;
+      }
+    }
+  }
+}
+
+/**
+ * Visit all nodes that are reachable from a start node using the [breadth-first search
+ * algorithm](https://en.wikipedia.org/wiki/Breadth-first_search), grouped by their
+ * distance from the start node.
+ *
+ * The returned iterable is lazy and yields one array per depth: first an array containing
+ * only {@link BfsOptions.start}, then an array of every node reachable in one step, and so
+ * on. Multiple equivalent nodes (determined by the {@link BfsOptions.key()} function) are
+ * only yielded once, in the layer of their shortest distance from the start node.
+ *
+ * # Example
+ *
+ * ```ts
+ * const layers = Array.from(bfsLayers({
+ *   start: 1,
+ *   successors: (n) => n <= 4 ? [n * 2, n * 2 + 1] : [],
+ *   key: (n) => n,
+ * }));
+ * assertEquals(layers, [[1], [2, 3], [4, 5, 6, 7], [8, 9]]);
+ * ```
+ */
+export function* bfsLayers<Node>(
+  options: Omit<BfsOptions<Node>, "success">,
+): Generator<Node[], void, undefined> {
+  const seen = new Set<unknown>([options.key(options.start)]);
+  let layer: Node[] = [options.start];
+  while (layer.length !== 0) {
+    yield layer;
+    const nextLayer: Node[] = [];
+    for (const node of layer) {
+      for (const successor of options.successors(node)) {
+        const successorKey = options.key(successor);
+        if (!seen.has(successorKey)) {
+          seen.add(successorKey);
+          nextLayer.push(successor);
+        }
+      }
+    }
+    layer = nextLayer;
+  }
+}
+
+export interface BfsBidirectionalOptions<Node>
+  extends Omit<BfsOptions<Node>, "success"> {
+  /**
+   * The node to reach.
+   */
+  goal: Node;
+  /**
+   * Returns a list of predecessors for a given node, which are the nodes that have the
+   * given node as a successor. This is the mirror of {@link BfsOptions.successors}.
+   */
+  predecessors: (node: Node) => Iterable<Node>;
+}
+
+/**
+ * Compute a shortest path using a bidirectional [breadth-first
+ * search](https://en.wikipedia.org/wiki/Bidirectional_search).
+ *
+ * The graph is searched from {@link BfsBidirectionalOptions.start} through the successors and
+ * from {@link BfsBidirectionalOptions.goal} through the predecessors at the same time, always
+ * extending the smaller of the two frontiers, until the searches meet. This usually explores
+ * far fewer nodes than {@link bfs} when both ends of the path are known.
+ *
+ * The path with the fewest steps from the start node to the goal node is returned, or
+ * `undefined` is returned if the goal can't be reached. The returned path comprises both the
+ * start and goal node. Multiple equivalent nodes (determined by the {@link BfsOptions.key()}
+ * function) will never be included twice in the path.
+ *
+ * # Example
+ *
+ * ```ts
+ * const result = bfsBidirectional({
+ *   start: 1,
+ *   goal: 12,
+ *   successors: (n) => [n + 1, n * 2],
+ *   predecessors: (n) => n % 2 === 0 ? [n - 1, n / 2] : [n - 1],
+ *   key: (n) => n,
+ * });
+ * assertEquals(result, [1, 2, 3, 6, 12]);
+ * ```
+ */
+export function bfsBidirectional<Node>(
+  options: BfsBidirectionalOptions<Node>,
+): Node[] | undefined {
+  interface EncounteredNodeEntry<Node> {
+    node: Node;
+    /**
+     * Either the key of the neighbor this node was reached from or `undefined`.
+     */
+    parentKey: unknown;
+  }
+  interface Side<Node> {
+    encounteredNodes: Map<unknown, EncounteredNodeEntry<Node>>;
+    frontier: Node[];
+    neighbors: (node: Node) => Iterable<Node>;
+  }
+
+  const startKey = options.key(options.start);
+  const goalKey = options.key(options.goal);
+  if (startKey === goalKey) {
+    return [options.start];
+  }
+
+  const forward: Side<Node> = {
+    encounteredNodes: new Map([
+      [startKey, { node: options.start, parentKey: undefined }],
+    ]),
+    frontier: [options.start],
+    neighbors: options.successors,
+  };
+  const backward: Side<Node> = {
+    encounteredNodes: new Map([
+      [goalKey, { node: options.goal, parentKey: undefined }],
+    ]),
+    frontier: [options.goal],
+    neighbors: options.predecessors,
+  };
+
+  const buildBidirectionalPath = (meetingKey: unknown): Node[] => {
+    const forwardKeys = reversePath(
+      forward.encounteredNodes,
+      (e) => e.parentKey,
+      meetingKey,
+    );
+    const backwardKeys = reversePath(
+      backward.encounteredNodes,
+      (e) => e.parentKey,
+      meetingKey,
+    );
+    return [
+      ...forwardKeys.map((nodeKey) => forward.encounteredNodes.get(nodeKey)!),
+      ...backwardKeys.reverse().slice(1).map((nodeKey) =>
+        backward.encounteredNodes.get(nodeKey)!
+      ),
+    ].map((entry) => entry.node);
+  };
+
+  while (forward.frontier.length !== 0 && backward.frontier.length !== 0) {
+    const [side, otherSide] =
+      forward.frontier.length <= backward.frontier.length
+        ? [forward, backward]
+        : [backward, forward];
+    const nextFrontier: Node[] = [];
+    for (const node of side.frontier) {
+      const nodeKey = options.key(node);
+      for (const neighbor of side.neighbors(node)) {
+        const neighborKey = options.key(neighbor);
+        if (side.encounteredNodes.has(neighborKey)) {
+          continue;
+        }
+        side.encounteredNodes.set(neighborKey, {
+          node: neighbor,
+          parentKey: nodeKey,
+        });
+        if (otherSide.encounteredNodes.has(neighborKey)) {
+          return buildBidirectionalPath(neighborKey);
+        }
+        nextFrontier.push(neighbor);
+      }
+    }
+    side.frontier = nextFrontier;
+  }
+  return undefined;
+}
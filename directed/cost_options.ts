@@ -13,10 +13,23 @@ export interface CostOptions<Cost> {
    * value otherwise.
    */
   compareFn: (a: Cost, b: Cost) => number;
+  /**
+   * Function to subtract the second cost value from the first one. This is only
+   * needed by algorithms that reweight edges, such as `johnson`, or compute
+   * differences between costs, such as `criticalPath`.
+   */
+  subtract?: (a: Cost, b: Cost) => Cost;
+  /**
+   * Function to multiply a cost value by a factor greater than or equal to one. This
+   * is only needed to weight the heuristic of `aStar` and `araStar`.
+   */
+  scale?: (cost: Cost, factor: number) => Cost;
 }
 
 export const numberCostOptions: CostOptions<number> = {
   zero: 0,
   add: (a, b) => a + b,
   compareFn: (a, b) => a - b,
+  subtract: (a, b) => a - b,
+  scale: (cost, factor) => cost * factor,
 };
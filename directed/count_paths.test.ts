@@ -1,5 +1,9 @@
-import { assertEquals } from "https://deno.land/std@0.189.0/testing/asserts.ts";
-import { countPaths } from "./count_paths.ts";
+import {
+  assertEquals,
+  assertThrows,
+} from "https://deno.land/std@0.189.0/testing/asserts.ts";
+import { countPaths, countPathsBigInt } from "./count_paths.ts";
+import { CycleError } from "./topological_sort.ts";
 
 Deno.test("grid", () => {
   const n = countPaths({
@@ -13,3 +17,92 @@ Deno.test("grid", () => {
   });
   assertEquals(n, 3432);
 });
+
+Deno.test("grid with key", () => {
+  let calls = 0;
+  const n = countPaths({
+    start: [0, 0],
+    successors: ([x, y]) => {
+      calls++;
+      return [
+        [x + 1, y],
+        [x, y + 1],
+      ].filter(([x, y]) => x < 8 && y < 8);
+    },
+    success: ([x, y]) => x === 7 && y === 7,
+    key: ([x, y]) => x + "," + y,
+  });
+  assertEquals(n, 3432);
+  assertEquals(calls, 63);
+});
+
+Deno.test("nodes without any path are only explored once", () => {
+  const calls = new Map<number, number>();
+  const n = countPaths({
+    start: 0,
+    successors: (n) => {
+      calls.set(n, (calls.get(n) ?? 0) + 1);
+      return n < 40 ? [n + 1, n + 2] : [];
+    },
+    success: (n) => n === -1,
+  });
+  assertEquals(n, 0);
+  assertEquals(Array.from(calls.values()).every((c) => c === 1), true);
+});
+
+Deno.test("start is a success", () => {
+  assertEquals(
+    countPaths({ start: 1, successors: () => [1], success: () => true }),
+    1,
+  );
+});
+
+Deno.test("deep graph", () => {
+  const n = countPaths({
+    start: 0,
+    successors: (n) => n < 100_000 ? [n + 1] : [],
+    success: (n) => n === 100_000,
+  });
+  assertEquals(n, 1);
+});
+
+Deno.test("bigint", () => {
+  type Pos = [number, number];
+  const options = {
+    start: [0, 0] as Pos,
+    successors: ([x, y]: Pos) =>
+      ([[x + 1, y], [x, y + 1]] as Pos[]).filter(([x, y]) => x < 40 && y < 40),
+    success: ([x, y]: Pos) => x === 39 && y === 39,
+    key: ([x, y]: Pos) => x + "," + y,
+  };
+  assertEquals(countPathsBigInt(options), 27217014869199032015600n);
+  assertEquals(
+    countPathsBigInt({ ...options, success: () => false }),
+    0n,
+  );
+});
+
+Deno.test("cycle", () => {
+  const error = assertThrows(
+    () =>
+      countPaths({
+        start: 0,
+        // 0 -> 1 -> 2 -> 3 -> 1, and 2 -> 4
+        successors: (n) => n === 2 ? [4, 3] : n === 3 ? [1] : [n + 1],
+        success: (n) => n === 4,
+      }),
+    CycleError,
+  ) as CycleError<number>;
+  assertEquals(error.cycle, [1, 2, 3]);
+
+  const selfLoopError = assertThrows(
+    () =>
+      countPaths({
+        start: 0,
+        successors: (n) => [n],
+        success: () => false,
+      }),
+    CycleError,
+  ) as CycleError<number>;
+  assertEquals(selfLoopError.cycle, [0]);
+});
@@ -1,54 +1,119 @@
-function cachedCountPaths<Node>(
-  options: CountPathsOptions<Node>,
-  node: Node,
-  cache: Map<Node, number>,
-): number {
-  const result = cache.get(node);
-  if (result) {
-    return result;
-  }
-  let count: number;
-  if (options.success(node)) {
-    count = 1;
-  } else {
-    count = 0;
-    for (const successor of options.successors(node)) {
-      count += cachedCountPaths(options, successor, cache);
-    }
-  }
-  cache.set(node, count);
-  return count;
-}
+import { foldPaths, Semiring } from "./fold_paths.ts";
 
 export interface CountPathsOptions<Node> {
+  /**
+   * The starting node.
+   */
   start: Node;
+  /**
+   * Returns a list of successors for a given node.
+   */
   successors: (node: Node) => Iterable<Node>;
+  /**
+   * Checks whether the goal has been reached. It is not a node as some
+   * problems require a dynamic solution instead of a fixed node. The successors
+   * of a successful node are not explored.
+   */
   success: (node: Node) => boolean;
+  /**
+   * A function that returns a unique key for a node. Equal nodes must return keys
+   * that are equal. The number of paths from every node is only computed once per key.
+   * Defaults to the identity function (`x => x`), which is only suitable if the nodes
+   * are primitive values or are represented by persistent unique objects.
+   * Otherwise, a custom function that converts the node to a string is
+   * recommended. (`JSON.stringify` can be used for this.)
+   */
+  key?: (node: Node) => unknown;
 }
 
 /**
- * Count the total number of possible paths to reach a destination. There must be no loops
- * in the graph, or the function will overflow its stack.
+ * Count the total number of possible paths to reach a destination.
+ *
+ * The number of paths from every node (determined by the {@link CountPathsOptions.key()}
+ * function) to a successful node is only computed once. The graph is explored with an
+ * explicit stack instead of recursion, so very deep graphs do not overflow the call stack.
+ * See {@link countPathsBigInt} if the number of paths may be too large to be represented
+ * exactly by a `number`.
+ *
+ * This is {@link foldPaths} where every edge counts as one path. There must be no cycle in
+ * the explored part of the graph, as there would be an infinite number of paths: a
+ * {@link CycleError} containing the cycle is thrown if one is found.
  *
  * # Example
  *
  * On a 8x8 board, find the total paths from the bottom-left square to the top-right square.
  *
- * ```
- * use pathfinding::prelude::count_paths;
- *
- * let n = count_paths(
- *     (0, 0),
- *     |&(x, y)| {
- *         [(x + 1, y), (x, y + 1)]
- *             .into_iter()
- *             .filter(|&(x, y)| x < 8 && y < 8)
- *     },
- *     |&c| c == (7, 7),
- * );
- * assert_eq!(n, 3432);
+ * ```ts
+ * import { assertEquals } from "https://deno.land/std@0.189.0/testing/asserts.ts";
+ * import { countPaths } from "https://deno.land/x/lazy_pathfinding/directed/count_paths.ts";
+ *
+ * type Pos = [number, number];
+ *
+ * const n = countPaths<Pos>({
+ *   start: [0, 0],
+ *   successors: ([x, y]) =>
+ *     ([[x + 1, y], [x, y + 1]] as Pos[]).filter(([x, y]) => x < 8 && y < 8),
+ *   success: ([x, y]) => x === 7 && y === 7,
+ *   key: ([x, y]) => x + "," + y,
+ * });
+ * assertEquals(n, 3432);
  * ```
  */
 export function countPaths<Node>(options: CountPathsOptions<Node>): number {
-  return cachedCountPaths(options, options.start, new Map());
+  return countPathsInternal(options, numberCountSemiring);
+}
+
+/**
+ * Count the total number of possible paths to reach a destination, like
+ * {@link countPaths}, but as a `bigint` so the result is exact even when it is too large
+ * for a `number`.
+ *
+ * # Example
+ *
+ * ```ts
+ * type Pos = [number, number];
+ *
+ * const n = countPathsBigInt<Pos>({
+ *   start: [0, 0],
+ *   successors: ([x, y]) =>
+ *     ([[x + 1, y], [x, y + 1]] as Pos[]).filter(([x, y]) => x < 40 && y < 40),
+ *   success: ([x, y]) => x === 39 && y === 39,
+ *   key: ([x, y]) => x + "," + y,
+ * });
+ * assertEquals(n, 27217014869199032015600n);
+ * ```
+ */
+export function countPathsBigInt<Node>(
+  options: CountPathsOptions<Node>,
+): bigint {
+  return countPathsInternal(options, bigIntCountSemiring);
+}
+
+const numberCountSemiring: Semiring<number> = {
+  zero: 0,
+  one: 1,
+  plus: (a, b) => a + b,
+  times: (a, b) => a * b,
+};
+
+const bigIntCountSemiring: Semiring<bigint> = {
+  zero: 0n,
+  one: 1n,
+  plus: (a, b) => a + b,
+  times: (a, b) => a * b,
+};
+
+function countPathsInternal<Node, Count>(
+  options: CountPathsOptions<Node>,
+  semiring: Semiring<Count>,
+): Count {
+  return foldPaths({
+    ...options,
+    successors: function* (node): Generator<[Node, Count]> {
+      for (const successor of options.successors(node)) {
+        yield [successor, semiring.one];
+      }
+    },
+    semiring,
+  });
 }
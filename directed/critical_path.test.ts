@@ -0,0 +1,180 @@
+import {
+  assertEquals,
+  assertThrows,
+} from "https://deno.land/std@0.189.0/testing/asserts.ts";
+import { criticalPath } from "./critical_path.ts";
+import { CostOptions } from "./cost_options.ts";
+import { foldPaths } from "./fold_paths.ts";
+import { CycleError } from "./topological_sort.ts";
+
+const steps: Record<string, [number, string[]]> = {
+  fetch: [2, ["compile", "lint"]],
+  compile: [5, ["test"]],
+  lint: [1, ["package"]],
+  test: [3, ["package"]],
+  package: [1, ["done"]],
+  done: [0, []],
+};
+
+Deno.test("criticalPath() doc example", () => {
+  const result = criticalPath({
+    roots: ["fetch"],
+    successors: (step) => {
+      const [duration, next] = steps[step];
+      return next.map((nextStep): [string, number] => [nextStep, duration]);
+    },
+    key: (step) => step,
+  });
+  assertEquals(result.path, ["fetch", "compile", "test", "package", "done"]);
+  assertEquals(result.length, 11);
+  assertEquals(result.nodes.get("lint"), {
+    node: "lint",
+    earliestStart: 2,
+    latestStart: 9,
+    slack: 7,
+  });
+  assertEquals(
+    Array.from(result.nodes.values())
+      .filter(({ slack }) => slack === 0)
+      .map(({ node }) => node),
+    result.path,
+  );
+});
+
+Deno.test("criticalPath() custom cost", () => {
+  const bigIntCostOptions: CostOptions<bigint> = {
+    zero: 0n,
+    add: (a, b) => a + b,
+    compareFn: (a, b) => a < b ? -1 : a > b ? 1 : 0,
+    subtract: (a, b) => a - b,
+  };
+  const result = criticalPath({
+    roots: ["fetch"],
+    successors: (step) => {
+      const [duration, next] = steps[step];
+      return next.map((
+        nextStep,
+      ): [string, bigint] => [nextStep, BigInt(duration) * 10n ** 20n]);
+    },
+    key: (step) => step,
+    costOptions: bigIntCostOptions,
+  });
+  assertEquals(result.length, 11n * 10n ** 20n);
+  assertEquals(result.nodes.get("lint")!.slack, 7n * 10n ** 20n);
+
+  assertThrows(
+    () =>
+      criticalPath({
+        roots: ["fetch"],
+        successors: () => [],
+        key: (step) => step,
+        costOptions: { ...bigIntCostOptions, subtract: undefined },
+      }),
+    Error,
+    "costOptions.subtract is required",
+  );
+});
+
+Deno.test("criticalPath() multiple roots", () => {
+  // The root b has a predecessor, so it doesn't start at time zero.
+  const edges: Record<string, [string, number][]> = {
+    a: [["b", 4]],
+    b: [["c", 1]],
+    c: [],
+    d: [["c", 2]],
+  };
+  const result = criticalPath({
+    roots: ["b", "d", "a"],
+    successors: (n) => edges[n],
+    key: (n) => n,
+  });
+  assertEquals(result.path, ["a", "b", "c"]);
+  assertEquals(result.length, 5);
+  assertEquals(result.nodes.get("d"), {
+    node: "d",
+    earliestStart: 0,
+    latestStart: 3,
+    slack: 3,
+  });
+  assertEquals(result.nodes.size, 4);
+
+  assertEquals(
+    criticalPath({ roots: [], successors: () => [], key: (n) => n }),
+    { path: [], length: 0, nodes: new Map() },
+  );
+});
+
+Deno.test("criticalPath() cycle", () => {
+  const error = assertThrows(
+    () =>
+      criticalPath({
+        roots: [0],
+        successors: (n): [number, number][] => [[(n + 1) % 3, 1]],
+        key: (n) => n,
+      }),
+    CycleError,
+  ) as CycleError<number>;
+  assertEquals(error.cycle, [0, 1, 2]);
+});
+
+Deno.test("criticalPath() random graphs", () => {
+  let seed = 7;
+  const random = () => {
+    seed = (seed * 1103515245 + 12345) % 2147483648;
+    return seed / 2147483648;
+  };
+  for (let round = 0; round < 20; round++) {
+    const size = 30;
+    const graph = Array.from({ length: size }, (_, i) =>
+      Array.from(
+        { length: i === size - 1 ? 0 : Math.floor(random() * 3) + 1 },
+        (): [number, number] => [
+          i + 1 + Math.floor(random() * (size - i - 1)),
+          Math.floor(random() * 10),
+        ],
+      ));
+    const successors = (n: number) => graph[n];
+    const result = criticalPath({ roots: [0], successors, key: (n) => n });
+
+    const longest = foldPaths({
+      start: 0,
+      successors,
+      success: (n) => graph[n].length === 0,
+      semiring: {
+        zero: -Infinity,
+        one: 0,
+        plus: Math.max,
+        times: (a, b) => a + b,
+      },
+    });
+    assertEquals(result.length, longest);
+    assertEquals(result.path[0], 0);
+    let length = 0;
+    result.path.slice(1).forEach((n, i) => {
+      length += Math.max(
+        ...graph[result.path[i]].filter(([m]) => m === n).map(([, d]) => d),
+      );
+    });
+    assertEquals(length, result.length);
+    for (
+      const { node, earliestStart, latestStart, slack } of result.nodes.values()
+    ) {
+      assertEquals(slack >= 0, true);
+      assertEquals(slack, latestStart - earliestStart);
+      for (const [successor, duration] of graph[node]) {
+        const successorEntry = result.nodes.get(successor)!;
+        assertEquals(
+          earliestStart + duration <= successorEntry.earliestStart,
+          true,
+        );
+        assertEquals(
+          latestStart + duration <= successorEntry.latestStart,
+          true,
+        );
+      }
+    }
+    for (const node of result.path) {
+      assertEquals(result.nodes.get(node)!.slack, 0);
+    }
+  }
+});
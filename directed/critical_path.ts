@@ -0,0 +1,245 @@
+import { postorder } from "./_postorder.ts";
+import { reversePath } from "./_reverse_path.ts";
+import { CostOptions, numberCostOptions } from "./cost_options.ts";
+import { CycleError } from "./topological_sort.ts";
+
+export interface CriticalPathOptions<Node, Cost = number> {
+  /**
+   * The nodes to start the exploration from. Every node reachable from them is part of
+   * the schedule.
+   */
+  roots: Iterable<Node>;
+  /**
+   * Returns a list of successors for a given node, along with the duration of the
+   * activity going from the node to the successor. The successor can't happen before the
+   * activity is done.
+   */
+  successors: (node: Node) => Iterable<[Node, Cost]>;
+  /**
+   * A function that returns a unique key for a node. Equal nodes must return keys
+   * that are equal.
+   * If the nodes are primitive values, are represented by persistent unique objects,
+   * or are never encountered more than once, then the identity function (`x => x`)
+   * can be used here.
+   * Otherwise, a custom function that converts the node to a string is
+   * recommended. (`JSON.stringify` can be used for this.)
+   */
+  key: (node: Node) => unknown;
+  /**
+   * This option lets custom functions for managing the Cost values be specified.
+   * This is not necessary to use if the Cost type is a number. Otherwise,
+   * {@link CostOptions.subtract} must be given to compute the slack of the nodes.
+   */
+  costOptions?: CostOptions<Cost>;
+}
+
+export interface CriticalPathNodeEntry<Node, Cost> {
+  node: Node;
+  /**
+   * The earliest time at which the node can happen, once the activities of every path
+   * leading to it are done.
+   */
+  earliestStart: Cost;
+  /**
+   * The latest time at which the node can happen without delaying the end of the
+   * schedule.
+   */
+  latestStart: Cost;
+  /**
+   * How much the node can be delayed without delaying the end of the schedule. This is
+   * zero for the nodes of the critical path.
+   */
+  slack: Cost;
+}
+
+export interface CriticalPathResult<Node, Cost> {
+  /**
+   * A longest path of the graph, whose activities can't be delayed without delaying the
+   * end of the schedule. It starts from a node without predecessors.
+   */
+  path: Node[];
+  /**
+   * The total duration of the path, which is the time needed to go through the whole
+   * schedule.
+   */
+  length: Cost;
+  /**
+   * A map where the key of every reachable node is associated with the node value and its
+   * schedule.
+   */
+  nodes: Map<unknown, CriticalPathNodeEntry<Node, Cost>>;
+}
+
+/**
+ * Compute the [critical path](https://en.wikipedia.org/wiki/Critical_path_method) of a
+ * schedule given as a directed acyclic graph, which is a [longest
+ * path](https://en.wikipedia.org/wiki/Longest_path_problem) of the graph.
+ *
+ * Every node is an event, such as a task being ready to start, and every edge is an
+ * activity which must be done before its successor can happen. The nodes without
+ * predecessors happen at time zero, and every other node happens once the activities
+ * leading to it are all done. Alongside the critical path, the earliest and latest times
+ * at which every node can happen are computed, along with their slack.
+ *
+ * All nodes reachable from {@link CriticalPathOptions.roots} are discovered first, and the
+ * successors of every node are only computed once. Multiple equivalent nodes (determined
+ * by the {@link CriticalPathOptions.key()} function) are only included once.
+ *
+ * A {@link CycleError} containing one of the cycles is thrown if the reachable part of the
+ * graph is not acyclic.
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals } from "https://deno.land/std@0.189.0/testing/asserts.ts";
+ * import { criticalPath } from "https://deno.land/x/lazy_pathfinding/directed/critical_path.ts";
+ *
+ * // The duration of every build step, and the steps which need it to be done.
+ * const steps: Record<string, [number, string[]]> = {
+ *   fetch: [2, ["compile", "lint"]],
+ *   compile: [5, ["test"]],
+ *   lint: [1, ["package"]],
+ *   test: [3, ["package"]],
+ *   package: [1, ["done"]],
+ *   done: [0, []],
+ * };
+ * const result = criticalPath({
+ *   roots: ["fetch"],
+ *   successors: (step) => {
+ *     const [duration, next] = steps[step];
+ *     return next.map((nextStep): [string, number] => [nextStep, duration]);
+ *   },
+ *   key: (step) => step,
+ * });
+ * assertEquals(result.path, ["fetch", "compile", "test", "package", "done"]);
+ * assertEquals(result.length, 11);
+ * assertEquals(result.nodes.get("lint"), {
+ *   node: "lint",
+ *   earliestStart: 2,
+ *   latestStart: 9,
+ *   slack: 7,
+ * });
+ * ```
+ */
+export function criticalPath<Node, Cost = number>(
+  options: CriticalPathOptions<Node, Cost>,
+): CriticalPathResult<Node, Cost> {
+  const costOptions = options.costOptions ??
+    numberCostOptions as CostOptions<unknown> as CostOptions<Cost>;
+  const { subtract } = costOptions;
+  if (!subtract) {
+    throw new Error("costOptions.subtract is required to compute the slack");
+  }
+
+  interface DiscoveredNodeEntry<Node, Cost> {
+    node: Node;
+    successors: [unknown, Cost][];
+    /**
+     * The key of the predecessor through which the longest path to this node goes, or
+     * `undefined` if it has no predecessor.
+     */
+    parentKey: unknown;
+    earliestStart: Cost;
+    latestStart?: Cost;
+  }
+  const discoveredNodes = new Map<unknown, DiscoveredNodeEntry<Node, Cost>>();
+  const toExplore: Node[] = [];
+  const discover = (node: Node) => {
+    const nodeKey = options.key(node);
+    if (!discoveredNodes.has(nodeKey)) {
+      discoveredNodes.set(nodeKey, {
+        node,
+        successors: [],
+        parentKey: undefined,
+        earliestStart: costOptions.zero,
+      });
+      toExplore.push(node);
+    }
+    return nodeKey;
+  };
+  for (const root of options.roots) {
+    discover(root);
+  }
+  for (let i = 0; i < toExplore.length; i++) {
+    const node = toExplore[i];
+    const { successors } = discoveredNodes.get(options.key(node))!;
+    for (const [successor, duration] of options.successors(node)) {
+      successors.push([discover(successor), duration]);
+    }
+  }
+
+  const [order, cycle] = postorder({
+    roots: toExplore,
+    successors: (node) =>
+      discoveredNodes.get(options.key(node))!.successors.map(([successorKey]) =>
+        discoveredNodes.get(successorKey)!.node
+      ),
+    key: options.key,
+  });
+  if (cycle) {
+    throw new CycleError(cycle);
+  }
+  const sortedKeys = order.reverse().map((node) => options.key(node));
+  if (sortedKeys.length === 0) {
+    return { path: [], length: costOptions.zero, nodes: new Map() };
+  }
+
+  // Compute the earliest starts in topological order.
+  const reachedKeys = new Set<unknown>();
+  let lastKey = sortedKeys[0];
+  for (const nodeKey of sortedKeys) {
+    const entry = discoveredNodes.get(nodeKey)!;
+    if (
+      costOptions.compareFn(
+        entry.earliestStart,
+        discoveredNodes.get(lastKey)!.earliestStart,
+      ) > 0
+    ) {
+      lastKey = nodeKey;
+    }
+    for (const [successorKey, duration] of entry.successors) {
+      const successorEntry = discoveredNodes.get(successorKey)!;
+      const start = costOptions.add(entry.earliestStart, duration);
+      if (
+        !reachedKeys.has(successorKey) ||
+        costOptions.compareFn(start, successorEntry.earliestStart) > 0
+      ) {
+        reachedKeys.add(successorKey);
+        successorEntry.earliestStart = start;
+        successorEntry.parentKey = nodeKey;
+      }
+    }
+  }
+  const length = discoveredNodes.get(lastKey)!.earliestStart;
+
+  // Compute the latest starts in reverse topological order.
+  const nodes = new Map<unknown, CriticalPathNodeEntry<Node, Cost>>();
+  for (let i = sortedKeys.length - 1; i >= 0; i--) {
+    const nodeKey = sortedKeys[i];
+    const entry = discoveredNodes.get(nodeKey)!;
+    let latestStart = length;
+    for (const [successorKey, duration] of entry.successors) {
+      const start = subtract(
+        discoveredNodes.get(successorKey)!.latestStart!,
+        duration,
+      );
+      if (costOptions.compareFn(start, latestStart) < 0) {
+        latestStart = start;
+      }
+    }
+    entry.latestStart = latestStart;
+  }
+  for (const nodeKey of sortedKeys) {
+    const { node, earliestStart, latestStart } = discoveredNodes.get(nodeKey)!;
+    nodes.set(nodeKey, {
+      node,
+      earliestStart,
+      latestStart: latestStart!,
+      slack: subtract(latestStart!, earliestStart),
+    });
+  }
+
+  const path = reversePath(discoveredNodes, (e) => e.parentKey, lastKey)
+    .map((nodeKey) => discoveredNodes.get(nodeKey)!.node);
+  return { path, length, nodes };
+}
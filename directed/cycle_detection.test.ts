@@ -0,0 +1,94 @@
+import {
+  assertEquals,
+  assertThrows,
+} from "https://deno.land/std@0.189.0/testing/asserts.ts";
+import { brent, floyd, nthState } from "./cycle_detection.ts";
+
+Deno.test("floyd() doc example", () => {
+  const result = floyd({
+    start: 1,
+    successor: (n) => (n * 3) % 100,
+    key: (n) => n,
+  });
+  assertEquals(result, { lambda: 20, mu: 0, firstRepeated: 1 });
+});
+
+Deno.test("brent() doc example", () => {
+  const result = brent({
+    start: 2,
+    successor: (n) => (n * n) % 100,
+    key: (n) => n,
+  });
+  assertEquals(result, { lambda: 4, mu: 2, firstRepeated: 16 });
+});
+
+Deno.test("nthState() doc example", () => {
+  const result = nthState({
+    start: 2,
+    successor: (n) => (n * n) % 100,
+    key: (n) => n,
+  }, 10n ** 18n);
+  assertEquals(result, 36);
+});
+
+Deno.test("floyd() and brent() agree with a naive search", () => {
+  for (let modulo = 1; modulo < 60; modulo++) {
+    for (let start = 0; start < modulo; start++) {
+      const options = {
+        start,
+        successor: (n: number) => (n * n + 1) % modulo,
+        key: (n: number) => n,
+      };
+      const seen = new Map<number, number>();
+      let node = start;
+      while (!seen.has(node)) {
+        seen.set(node, seen.size);
+        node = options.successor(node);
+      }
+      const expected = {
+        lambda: seen.size - seen.get(node)!,
+        mu: seen.get(node)!,
+        firstRepeated: node,
+      };
+      assertEquals(floyd(options), expected);
+      assertEquals(brent(options), expected);
+
+      const states = Array.from(seen.keys());
+      for (let n = 0; n < 3 * seen.size; n++) {
+        const index = n < expected.mu
+          ? n
+          : expected.mu + (n - expected.mu) % expected.lambda;
+        assertEquals(nthState(options, n), states[index]);
+        assertEquals(nthState(options, BigInt(n)), states[index]);
+      }
+    }
+  }
+});
+
+Deno.test("cycle detection with object nodes", () => {
+  type Pos = { x: number; y: number };
+  const options = {
+    start: { x: 0, y: 0 },
+    successor: ({ x, y }: Pos) => ({ x: (x + 1) % 3, y: (y + 1) % 4 }),
+    key: ({ x, y }: Pos) => x + "," + y,
+  };
+  assertEquals(floyd(options), {
+    lambda: 12,
+    mu: 0,
+    firstRepeated: { x: 0, y: 0 },
+  });
+  assertEquals(brent(options).lambda, 12);
+  assertEquals(nthState(options, 1e15 + 5), { x: 0, y: 1 });
+});
+
+Deno.test("nthState() invalid n", () => {
+  const options = {
+    start: 0,
+    successor: (n: number) => n,
+    key: (n: number) => n,
+  };
+  assertEquals(nthState(options, 0), 0);
+  assertThrows(() => nthState(options, -1), RangeError);
+  assertThrows(() => nthState(options, 1.5), RangeError);
+  assertThrows(() => nthState(options, -1n), RangeError);
+});
@@ -0,0 +1,188 @@
+export interface CycleDetectionOptions<Node> {
+  /**
+   * The starting node.
+   */
+  start: Node;
+  /**
+   * Returns the only successor of a given node. Since the number of different nodes
+   * reachable from the start node is expected to be finite, the successors eventually
+   * form a cycle.
+   */
+  successor: (node: Node) => Node;
+  /**
+   * A function that returns a unique key for a node. Equal nodes must return keys
+   * that are equal according to the `===` operator.
+   * If the nodes are primitive values, are represented by persistent unique objects,
+   * or are never encountered more than once, then the identity function (`x => x`)
+   * can be used here.
+   * Otherwise, a custom function that converts the node to a string is
+   * recommended. (`JSON.stringify` can be used for this.)
+   */
+  key: (node: Node) => unknown;
+}
+
+export interface CycleDetectionResult<Node> {
+  /**
+   * The length of the cycle.
+   */
+  lambda: number;
+  /**
+   * The number of steps from the start node to the first node of the cycle.
+   */
+  mu: number;
+  /**
+   * The first node of the cycle, which is the first node to be encountered twice.
+   */
+  firstRepeated: Node;
+}
+
+/**
+ * Identify the cycle reached by repeatedly applying {@link CycleDetectionOptions.successor()}
+ * to {@link CycleDetectionOptions.start} using [Floyd's
+ * algorithm](https://en.wikipedia.org/wiki/Cycle_detection#Floyd's_tortoise_and_hare) (the
+ * tortoise and the hare).
+ *
+ * Only a few nodes are kept in memory at any time, whatever the length of the cycle. See
+ * {@link brent} for an algorithm which usually needs fewer calls to
+ * {@link CycleDetectionOptions.successor()}.
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals } from "https://deno.land/std@0.189.0/testing/asserts.ts";
+ * import { floyd } from "https://deno.land/x/lazy_pathfinding/directed/cycle_detection.ts";
+ *
+ * // 1, 3, 9, 27, 81, 43, 29, 87, 61, 83, 49, 47, 41, 23, 69, 7, 21, 63, 89, 67, 1, ...
+ * const result = floyd({
+ *   start: 1,
+ *   successor: (n) => (n * 3) % 100,
+ *   key: (n) => n,
+ * });
+ * assertEquals(result, { lambda: 20, mu: 0, firstRepeated: 1 });
+ * ```
+ */
+export function floyd<Node>(
+  options: CycleDetectionOptions<Node>,
+): CycleDetectionResult<Node> {
+  const { successor, key } = options;
+  let tortoise = successor(options.start);
+  let hare = successor(successor(options.start));
+  while (key(tortoise) !== key(hare)) {
+    tortoise = successor(tortoise);
+    hare = successor(successor(hare));
+  }
+
+  let mu = 0;
+  tortoise = options.start;
+  while (key(tortoise) !== key(hare)) {
+    tortoise = successor(tortoise);
+    hare = successor(hare);
+    mu++;
+  }
+
+  let lambda = 1;
+  hare = successor(tortoise);
+  while (key(tortoise) !== key(hare)) {
+    hare = successor(hare);
+    lambda++;
+  }
+  return { lambda, mu, firstRepeated: tortoise };
+}
+
+/**
+ * Identify the cycle reached by repeatedly applying {@link CycleDetectionOptions.successor()}
+ * to {@link CycleDetectionOptions.start} using [Brent's
+ * algorithm](https://en.wikipedia.org/wiki/Cycle_detection#Brent's_algorithm).
+ *
+ * This gives the same result as {@link floyd}, usually with fewer calls to
+ * {@link CycleDetectionOptions.successor()}, and only a few nodes are kept in memory at any
+ * time.
+ *
+ * # Example
+ *
+ * ```ts
+ * // 2, 4, 16, 56, 36, 96, 16, ...
+ * const result = brent({
+ *   start: 2,
+ *   successor: (n) => (n * n) % 100,
+ *   key: (n) => n,
+ * });
+ * assertEquals(result, { lambda: 4, mu: 2, firstRepeated: 16 });
+ * ```
+ */
+export function brent<Node>(
+  options: CycleDetectionOptions<Node>,
+): CycleDetectionResult<Node> {
+  const { successor, key } = options;
+  let power = 1;
+  let lambda = 1;
+  let tortoise = options.start;
+  let hare = successor(options.start);
+  while (key(tortoise) !== key(hare)) {
+    if (power === lambda) {
+      tortoise = hare;
+      power *= 2;
+      lambda = 0;
+    }
+    hare = successor(hare);
+    lambda++;
+  }
+
+  tortoise = options.start;
+  hare = options.start;
+  for (let i = 0; i < lambda; i++) {
+    hare = successor(hare);
+  }
+  let mu = 0;
+  while (key(tortoise) !== key(hare)) {
+    tortoise = successor(tortoise);
+    hare = successor(hare);
+    mu++;
+  }
+  return { lambda, mu, firstRepeated: tortoise };
+}
+
+/**
+ * Compute the node reached after applying {@link CycleDetectionOptions.successor()} `n` times
+ * to {@link CycleDetectionOptions.start}.
+ *
+ * The cycle is first identified with {@link brent}, then the whole turns of the cycle are
+ * skipped, so `n` can be much larger than the number of different nodes. `n` must be a
+ * non-negative integer; a `bigint` can be used if it is too large to be represented exactly
+ * by a `number`.
+ *
+ * # Example
+ *
+ * ```ts
+ * const result = nthState({
+ *   start: 2,
+ *   successor: (n) => (n * n) % 100,
+ *   key: (n) => n,
+ * }, 10n ** 18n);
+ * assertEquals(result, 36);
+ * ```
+ */
+export function nthState<Node>(
+  options: CycleDetectionOptions<Node>,
+  n: number | bigint,
+): Node {
+  if (typeof n === "number" && !Number.isInteger(n) || n < 0) {
+    throw new RangeError("n must be a non-negative integer");
+  }
+  const { lambda, mu, firstRepeated } = brent(options);
+  let node: Node;
+  let steps: number;
+  if (n < mu) {
+    node = options.start;
+    steps = Number(n);
+  } else {
+    node = firstRepeated;
+    steps = typeof n === "bigint"
+      ? Number((n - BigInt(mu)) % BigInt(lambda))
+      : (n - mu) % lambda;
+  }
+  for (let i = 0; i < steps; i++) {
+    node = options.successor(node);
+  }
+  return node;
+}
@@ -0,0 +1,122 @@
+import { assertEquals } from "https://deno.land/std@0.189.0/testing/asserts.ts";
+import { dStarLite } from "./d_star_lite.ts";
+import { dijkstra } from "./dijkstra.ts";
+
+Deno.test("dStarLite() doc example", () => {
+  // A line of nodes from 0 to 5 where every node leads to its neighbors.
+  const neighbors = (n: number): [number, number][] =>
+    [n - 1, n + 1].filter((m) => m >= 0 && m <= 5).map((m) => [m, 1]);
+  const planner = dStarLite({
+    start: 0,
+    goal: 5,
+    successors: neighbors,
+    predecessors: neighbors,
+    heuristic: (a, b) => Math.abs(a - b),
+    key: (n) => n,
+  });
+  assertEquals(planner.path(), [[0, 1, 2, 3, 4, 5], 5]);
+
+  planner.moveStart(1);
+  planner.updateEdge(3, 4, 10);
+  assertEquals(planner.path(), [[1, 2, 3, 4, 5], 13]);
+
+  planner.updateEdge(3, 4, undefined);
+  assertEquals(planner.path(), undefined);
+});
+
+Deno.test("dStarLite() start is goal", () => {
+  const planner = dStarLite({
+    start: 1,
+    goal: 1,
+    successors: (n) => [[n + 1, 1]],
+    predecessors: (n) => [[n - 1, 1]],
+    heuristic: (a, b) => Math.abs(a - b),
+    key: (n) => n,
+  });
+  assertEquals(planner.path(), [[1], 0]);
+});
+
+Deno.test("dStarLite() new edge", () => {
+  const planner = dStarLite({
+    start: 0,
+    goal: 3,
+    successors: (n) => n < 3 ? [[n + 1, 5]] : [],
+    predecessors: (n) => n > 0 ? [[n - 1, 5]] : [],
+    heuristic: () => 0,
+    key: (n) => n,
+  });
+  assertEquals(planner.path(), [[0, 1, 2, 3], 15]);
+  planner.updateEdge(0, 3, 7);
+  assertEquals(planner.path(), [[0, 3], 7]);
+  planner.updateEdge(0, 3, 20);
+  assertEquals(planner.path(), [[0, 1, 2, 3], 15]);
+});
+
+Deno.test("dStarLite() matches dijkstra() on a changing grid", () => {
+  type Pos = [number, number];
+  const SIZE = 12;
+  // A deterministic pseudo-random sequence.
+  let seed = 42;
+  const random = (n: number) => {
+    seed = (seed * 1103515245 + 12345) % 2147483648;
+    return seed % n;
+  };
+  const costs = new Map<string, number>();
+  const edgeKey = (a: Pos, b: Pos) => a.join(",") + ">" + b.join(",");
+  const neighbors = ([x, y]: Pos): Pos[] =>
+    ([[x + 1, y], [x - 1, y], [x, y + 1], [x, y - 1]] as Pos[])
+      .filter(([x, y]) => x >= 0 && x < SIZE && y >= 0 && y < SIZE);
+  const cost = (a: Pos, b: Pos) => costs.get(edgeKey(a, b)) ?? 1;
+  const successors = (p: Pos): [Pos, number][] =>
+    neighbors(p)
+      .filter((n) => cost(p, n) !== Infinity)
+      .map((n) => [n, cost(p, n)]);
+  const key = ([x, y]: Pos) => x + "," + y;
+  const goal: Pos = [SIZE - 1, SIZE - 1];
+
+  // The planner is only given the initial costs, and is then notified of every
+  // change.
+  const initialCosts = (p: Pos): [Pos, number][] =>
+    neighbors(p).map((n) => [n, 1]);
+  const planner = dStarLite<Pos>({
+    start: [0, 0],
+    goal,
+    successors: initialCosts,
+    predecessors: initialCosts,
+    heuristic: (a, b) => Math.abs(a[0] - b[0]) + Math.abs(a[1] - b[1]),
+    key,
+  });
+
+  let start: Pos = [0, 0];
+  for (let step = 0; step < 40; step++) {
+    const result = planner.path();
+    const expected = dijkstra<Pos>({
+      start,
+      successors,
+      success: (p) => key(p) === key(goal),
+      key,
+    });
+    assertEquals(result?.[1], expected?.[1]);
+    if (!result) {
+      break;
+    }
+    let pathCost = 0;
+    for (let i = 1; i < result[0].length; i++) {
+      pathCost += cost(result[0][i - 1], result[0][i]);
+    }
+    assertEquals(pathCost, result[1]);
+
+    if (result[0].length > 1 && random(2) === 0) {
+      start = result[0][1];
+      planner.moveStart(start);
+    }
+    for (let i = 0; i < 5; i++) {
+      const from: Pos = [random(SIZE), random(SIZE)];
+      const choices = neighbors(from);
+      const to = choices[random(choices.length)];
+      const newCost = random(6) === 0 ? Infinity : 1 + random(5);
+      costs.set(edgeKey(from, to), newCost);
+      planner.updateEdge(from, to, newCost === Infinity ? undefined : newCost);
+    }
+  }
+});
@@ -0,0 +1,387 @@
+import { BinaryHeap } from "https://deno.land/std@0.189.0/collections/binary_heap.ts";
+import { AStarOptions } from "./a_star.ts";
+import { CostOptions, numberCostOptions } from "./cost_options.ts";
+
+export interface DStarLiteOptions<Node, Cost = number> extends
+  Omit<
+    AStarOptions<Node, Cost>,
+    "start" | "starts" | "startNodes" | "heuristic" | "success" | "maxCost"
+  > {
+  /**
+   * The starting node. It can be changed later with {@link DStarLite.moveStart()}.
+   */
+  start: Node;
+  /**
+   * The node to reach.
+   */
+  goal: Node;
+  /**
+   * Returns a list of predecessors for a given node, along with the cost for
+   * moving from the predecessor to the node. This is the mirror of
+   * {@link DStarLiteOptions.successors}.
+   */
+  predecessors: (node: Node) => Iterable<[Node, Cost]>;
+  /**
+   * Returns an approximation of the cost from a node to another one. The
+   * approximation must not be greater than the real cost and must satisfy the
+   * triangle inequality, or a wrong shortest path may be returned.
+   */
+  heuristic: (from: Node, to: Node) => Cost;
+}
+
+/**
+ * A shortest path planner which keeps its search state between queries.
+ */
+export interface DStarLite<Node, Cost> {
+  /**
+   * Compute the shortest path from the current start node to the goal node, reusing
+   * the work done by the previous calls.
+   *
+   * @returns The shortest path comprising both the start and goal node along with its
+   * total cost, or `undefined` if the goal can't be reached.
+   */
+  path(): [Node[], Cost] | undefined;
+  /**
+   * Notify the planner that the cost of moving from `from` to `to` has changed, or that
+   * the edge is new. From then on, this cost overrides the one given by
+   * {@link DStarLiteOptions.successors} and {@link DStarLiteOptions.predecessors}.
+   *
+   * @param newCost The new cost of the edge, or `undefined` if the edge was removed.
+   */
+  updateEdge(from: Node, to: Node, newCost: Cost | undefined): void;
+  /**
+   * Change the start node, typically after moving along the previously returned path.
+   */
+  moveStart(node: Node): void;
+}
+
+/**
+ * Create a shortest path planner for a graph whose costs change over time using the [D*
+ * Lite algorithm](https://en.wikipedia.org/wiki/D*#D*_Lite), a version of
+ * [LPA*](https://en.wikipedia.org/wiki/Lifelong_Planning_A*) which supports moving the
+ * start node.
+ *
+ * The graph is searched backward from {@link DStarLiteOptions.goal}, and the search is
+ * only computed when {@link DStarLite.path()} is called. After edge costs change or the
+ * start node moves, only the part of the search affected by the change is redone, which
+ * is usually much faster than calling {@link aStar} again.
+ *
+ * Multiple equivalent nodes (determined by the {@link DStarLiteOptions.key()} function)
+ * will never be included twice in the path.
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals } from "https://deno.land/std@0.189.0/testing/asserts.ts";
+ * import { dStarLite } from "https://deno.land/x/lazy_pathfinding/directed/d_star_lite.ts";
+ *
+ * // A line of nodes from 0 to 5 where every node leads to its neighbors.
+ * const neighbors = (n: number): [number, number][] =>
+ *   [n - 1, n + 1].filter((m) => m >= 0 && m <= 5).map((m) => [m, 1]);
+ * const planner = dStarLite({
+ *   start: 0,
+ *   goal: 5,
+ *   successors: neighbors,
+ *   predecessors: neighbors,
+ *   heuristic: (a, b) => Math.abs(a - b),
+ *   key: (n) => n,
+ * });
+ * assertEquals(planner.path(), [[0, 1, 2, 3, 4, 5], 5]);
+ *
+ * planner.moveStart(1);
+ * planner.updateEdge(3, 4, 10);
+ * assertEquals(planner.path(), [[1, 2, 3, 4, 5], 13]);
+ *
+ * planner.updateEdge(3, 4, undefined);
+ * assertEquals(planner.path(), undefined);
+ * ```
+ */
+export function dStarLite<Node, Cost = number>(
+  options: DStarLiteOptions<Node, Cost>,
+): DStarLite<Node, Cost> {
+  const costOptions = options.costOptions ??
+    numberCostOptions as CostOptions<unknown> as CostOptions<Cost>;
+
+  interface EncounteredNodeEntry<Node, Cost> {
+    node: Node;
+    /**
+     * The cost from this node to the goal as of the last time this node was
+     * expanded, or `undefined` if it is unknown or infinite.
+     */
+    g: Cost | undefined;
+    /**
+     * The cost from this node to the goal according to the `g` value of its
+     * successors, or `undefined` if it is unknown or infinite.
+     */
+    rhs: Cost | undefined;
+    /**
+     * The current item of this node in the priority queue, or `undefined` if
+     * the node is not queued.
+     */
+    queueItem: QueueItem<Cost> | undefined;
+  }
+
+  /**
+   * Compare two costs where `undefined` is infinite.
+   */
+  const compareCosts = (a: Cost | undefined, b: Cost | undefined): number => {
+    if (a === undefined || b === undefined) {
+      return (a === undefined ? 1 : 0) - (b === undefined ? 1 : 0);
+    }
+    return costOptions.compareFn(a, b);
+  };
+  const compareQueueKeys = (a: QueueKey<Cost>, b: QueueKey<Cost>): number =>
+    compareCosts(a.estimatedCost, b.estimatedCost) ||
+    compareCosts(a.cost, b.cost);
+
+  let start = options.start;
+  // The sum of the heuristic costs between the successive start nodes, which is
+  // added to new queue keys instead of updating the keys of every queued node.
+  let keyModifier = costOptions.zero;
+  const goalKey = options.key(options.goal);
+  const encounteredNodes = new Map<unknown, EncounteredNodeEntry<Node, Cost>>();
+  const toSee = new BinaryHeap<QueueItem<Cost>>(compareQueueKeys);
+
+  // Edge costs given by updateEdge(), indexed by both ends of the edges.
+  const overriddenSuccessors = new Map<
+    unknown,
+    Map<unknown, [Node, Cost | undefined]>
+  >();
+  const overriddenPredecessors = new Map<
+    unknown,
+    Map<unknown, [Node, Cost | undefined]>
+  >();
+  function* withOverrides(
+    neighbors: Iterable<[Node, Cost]>,
+    overrides: ReadonlyMap<unknown, [Node, Cost | undefined]> | undefined,
+  ): Generator<[Node, Cost], void, undefined> {
+    for (const neighbor of neighbors) {
+      if (!overrides?.has(options.key(neighbor[0]))) {
+        yield neighbor;
+      }
+    }
+    if (overrides) {
+      for (const [neighbor, cost] of overrides.values()) {
+        if (cost !== undefined) {
+          yield [neighbor, cost];
+        }
+      }
+    }
+  }
+  const successors = (node: Node, nodeKey: unknown) =>
+    withOverrides(options.successors(node), overriddenSuccessors.get(nodeKey));
+  const predecessors = (node: Node, nodeKey: unknown) =>
+    withOverrides(
+      options.predecessors(node),
+      overriddenPredecessors.get(nodeKey),
+    );
+
+  const getEntry = (
+    node: Node,
+    nodeKey: unknown,
+  ): EncounteredNodeEntry<Node, Cost> => {
+    let entry = encounteredNodes.get(nodeKey);
+    if (!entry) {
+      entry = { node, g: undefined, rhs: undefined, queueItem: undefined };
+      encounteredNodes.set(nodeKey, entry);
+    }
+    return entry;
+  };
+  const calculateQueueKey = (
+    entry: EncounteredNodeEntry<Node, Cost>,
+  ): QueueKey<Cost> => {
+    const cost = compareCosts(entry.g, entry.rhs) <= 0 ? entry.g : entry.rhs;
+    if (cost === undefined) {
+      return { estimatedCost: undefined, cost: undefined };
+    }
+    return {
+      estimatedCost: costOptions.add(
+        costOptions.add(cost, options.heuristic(start, entry.node)),
+        keyModifier,
+      ),
+      cost,
+    };
+  };
+  /**
+   * Queue the node if it is locally inconsistent, or else remove it from the queue.
+   */
+  const updateQueue = (
+    entry: EncounteredNodeEntry<Node, Cost>,
+    nodeKey: unknown,
+  ) => {
+    if (compareCosts(entry.g, entry.rhs) !== 0) {
+      // Any previous item of this node in the binary heap becomes outdated.
+      entry.queueItem = { ...calculateQueueKey(entry), nodeKey };
+      toSee.push(entry.queueItem);
+    } else {
+      entry.queueItem = undefined;
+    }
+  };
+  /**
+   * Recompute the `rhs` value of the node from its successors.
+   */
+  const updateNode = (node: Node, nodeKey: unknown) => {
+    const entry = getEntry(node, nodeKey);
+    if (nodeKey !== goalKey) {
+      let rhs: Cost | undefined;
+      for (const [successor, moveCost] of successors(node, nodeKey)) {
+        const g = encounteredNodes.get(options.key(successor))?.g;
+        if (g === undefined) {
+          continue;
+        }
+        const newCost = costOptions.add(moveCost, g);
+        if (rhs === undefined || costOptions.compareFn(newCost, rhs) < 0) {
+          rhs = newCost;
+        }
+      }
+      entry.rhs = rhs;
+    }
+    updateQueue(entry, nodeKey);
+  };
+  /**
+   * Discard the outdated items at the top of the binary heap and return the
+   * smallest valid one.
+   */
+  const peek = (): QueueItem<Cost> | undefined => {
+    while (true) {
+      const queueItem = toSee.peek();
+      if (
+        !queueItem ||
+        encounteredNodes.get(queueItem.nodeKey)!.queueItem === queueItem
+      ) {
+        return queueItem;
+      }
+      toSee.pop();
+    }
+  };
+  const computeShortestPath = () => {
+    const startEntry = getEntry(start, options.key(start));
+    while (true) {
+      const queueItem = peek();
+      if (
+        !queueItem ||
+        (compareQueueKeys(queueItem, calculateQueueKey(startEntry)) >= 0 &&
+          compareCosts(startEntry.g, startEntry.rhs) === 0)
+      ) {
+        break;
+      }
+      toSee.pop();
+      const { nodeKey } = queueItem;
+      const entry = encounteredNodes.get(nodeKey)!;
+      entry.queueItem = undefined;
+      const newQueueKey = calculateQueueKey(entry);
+      if (compareQueueKeys(queueItem, newQueueKey) < 0) {
+        // The key is outdated since the start node moved.
+        entry.queueItem = { ...newQueueKey, nodeKey };
+        toSee.push(entry.queueItem);
+      } else if (compareCosts(entry.g, entry.rhs) > 0) {
+        // The node got cheaper, which can only make its predecessors cheaper.
+        const g = entry.rhs!;
+        entry.g = g;
+        for (
+          const [predecessor, moveCost] of predecessors(entry.node, nodeKey)
+        ) {
+          const predecessorKey = options.key(predecessor);
+          if (predecessorKey === goalKey) {
+            continue;
+          }
+          const predecessorEntry = getEntry(predecessor, predecessorKey);
+          const newCost = costOptions.add(moveCost, g);
+          if (compareCosts(newCost, predecessorEntry.rhs) < 0) {
+            predecessorEntry.rhs = newCost;
+            updateQueue(predecessorEntry, predecessorKey);
+          }
+        }
+      } else {
+        // The node got more expensive, so every cost computed through it must be
+        // computed again.
+        entry.g = undefined;
+        updateNode(entry.node, nodeKey);
+        for (const [predecessor] of predecessors(entry.node, nodeKey)) {
+          updateNode(predecessor, options.key(predecessor));
+        }
+      }
+    }
+  };
+
+  const goalEntry = getEntry(options.goal, goalKey);
+  goalEntry.rhs = costOptions.zero;
+  updateQueue(goalEntry, goalKey);
+
+  return {
+    path() {
+      computeShortestPath();
+      const startKey = options.key(start);
+      const cost = encounteredNodes.get(startKey)!.g;
+      if (cost === undefined) {
+        return undefined;
+      }
+      const path = [start];
+      const pathKeys = new Set<unknown>([startKey]);
+      let node = start;
+      let nodeKey = startKey;
+      while (nodeKey !== goalKey) {
+        // Follow the successor through which the cost to the goal is the smallest.
+        let best: [Node, unknown, Cost] | undefined;
+        for (const [successor, moveCost] of successors(node, nodeKey)) {
+          const successorKey = options.key(successor);
+          const g = encounteredNodes.get(successorKey)?.g;
+          if (g === undefined || pathKeys.has(successorKey)) {
+            continue;
+          }
+          const newCost = costOptions.add(moveCost, g);
+          if (!best || costOptions.compareFn(newCost, best[2]) < 0) {
+            best = [successor, successorKey, newCost];
+          }
+        }
+        if (!best) {
+          return undefined;
+        }
+        [node, nodeKey] = best;
+        path.push(node);
+        pathKeys.add(nodeKey);
+      }
+      return [path, cost];
+    },
+    updateEdge(from, to, newCost) {
+      const fromKey = options.key(from);
+      const toKey = options.key(to);
+      let successorOverrides = overriddenSuccessors.get(fromKey);
+      if (!successorOverrides) {
+        successorOverrides = new Map();
+        overriddenSuccessors.set(fromKey, successorOverrides);
+      }
+      successorOverrides.set(toKey, [to, newCost]);
+      let predecessorOverrides = overriddenPredecessors.get(toKey);
+      if (!predecessorOverrides) {
+        predecessorOverrides = new Map();
+        overriddenPredecessors.set(toKey, predecessorOverrides);
+      }
+      predecessorOverrides.set(fromKey, [from, newCost]);
+      updateNode(from, fromKey);
+    },
+    moveStart(node) {
+      keyModifier = costOptions.add(
+        keyModifier,
+        options.heuristic(start, node),
+      );
+      start = node;
+    },
+  };
+}
+
+interface QueueKey<Cost> {
+  /**
+   * The estimated cost of a path from the start node to the goal through this
+   * node, or `undefined` if it is infinite.
+   */
+  estimatedCost: Cost | undefined;
+  /**
+   * The cost from this node to the goal, or `undefined` if it is infinite.
+   */
+  cost: Cost | undefined;
+}
+
+interface QueueItem<Cost> extends QueueKey<Cost> {
+  nodeKey: unknown;
+}
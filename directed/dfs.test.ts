@@ -0,0 +1,105 @@
+import { assertEquals } from "https://deno.land/std@0.189.0/testing/asserts.ts";
+import { dfs, dfsReach } from "./dfs.ts";
+
+Deno.test("dfs() doc example", () => {
+  const result = dfs({
+    start: 1,
+    successors: (n) => [n + 1, n * 2].filter((s) => s <= 17),
+    success: (n) => n === 17,
+    key: (n) => n,
+  });
+  assertEquals(result, [
+    1,
+    2,
+    3,
+    4,
+    5,
+    6,
+    7,
+    8,
+    9,
+    10,
+    11,
+    12,
+    13,
+    14,
+    15,
+    16,
+    17,
+  ]);
+});
+
+Deno.test("dfs() unreachable", () => {
+  const result = dfs({
+    start: 1,
+    successors: (n) => n <= 4 ? [n * 2, n * 2 + 1] : [],
+    success: (n) => n === 10,
+    key: (n) => n,
+  });
+  assertEquals(result, undefined);
+});
+
+Deno.test("dfs() with object nodes", () => {
+  type Pos = [number, number];
+  const result = dfs<Pos>({
+    start: [0, 0],
+    successors: ([x, y]) =>
+      ([[x + 1, y], [x, y + 1]] as Pos[]).filter(([x, y]) => x < 3 && y < 3),
+    success: ([x, y]) => x === 0 && y === 2,
+    key: (node) => node.join(","),
+  });
+  assertEquals(result, [[0, 0], [0, 1], [0, 2]]);
+});
+
+Deno.test("dfs() deep graph", () => {
+  const N = 300_000;
+  const result = dfs({
+    start: 0,
+    successors: (n) => n < N ? [n + 1] : [],
+    success: (n) => n === N,
+    key: (n) => n,
+  });
+  assertEquals(result!.length, N + 1);
+  assertEquals(result![N], N);
+});
+
+Deno.test("dfsReach() doc example", () => {
+  const reached = Array.from(dfsReach({
+    start: 1,
+    successors: (n) => n <= 4 ? [n * 2, n * 2 + 1] : [],
+    key: (n) => n,
+  }));
+  assertEquals(reached, [1, 2, 4, 8, 9, 5, 3, 6, 7]);
+});
+
+Deno.test("dfsReach() visit callbacks", () => {
+  const preorder: number[] = [];
+  const postorder: number[] = [];
+  const reached = Array.from(dfsReach({
+    start: 1,
+    successors: (n) => n <= 2 ? [n * 2, n * 2 + 1, 1] : [],
+    key: (n) => n,
+    preVisit: (n) => preorder.push(n),
+    postVisit: (n) => postorder.push(n),
+  }));
+  assertEquals(reached, [1, 2, 4, 5, 3]);
+  assertEquals(preorder, [1, 2, 4, 5, 3]);
+  assertEquals(postorder, [4, 5, 2, 3, 1]);
+});
+
+Deno.test("dfsReach() is lazy on an infinite graph", () => {
+  const reached: number[] = [];
+  for (
+    const n of dfsReach({
+      start: 0,
+      successors: (n) => [n + 1],
+      key: (n) => n,
+    })
+  ) {
+    reached.push(n);
+    if (reached.length === 5) {
+      break;
+    }
+  }
+  assertEquals(reached, [0, 1, 2, 3, 4]);
+});
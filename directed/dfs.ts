@@ -0,0 +1,142 @@
+export interface DfsOptions<Node> {
+  /**
+   * The starting node.
+   */
+  start: Node;
+  /**
+   * Returns a list of successors for a given node. Successors are explored in
+   * the order they are returned.
+   */
+  successors: (node: Node) => Iterable<Node>;
+  /**
+   * Checks whether the goal has been reached. It is not a node as some
+   * problems require a dynamic solution instead of a fixed node.
+   */
+  success: (node: Node) => boolean;
+  /**
+   * A function that returns a unique key for a node. Equal nodes must return keys
+   * that are equal.
+   * If the nodes are primitive values, are represented by persistent unique objects,
+   * or are never encountered more than once, then the identity function (`x => x`)
+   * can be used here.
+   * Otherwise, a custom function that converts the node to a string is
+   * recommended. (`JSON.stringify` can be used for this.)
+   */
+  key: (node: Node) => unknown;
+  /**
+   * Called with each node when it is first visited, before any of its successors
+   * are explored (preorder).
+   */
+  preVisit?: (node: Node) => void;
+  /**
+   * Called with each node once all of its successors have been explored (postorder).
+   * This is not called for nodes whose exploration is interrupted, such as the nodes
+   * on the path returned by {@link dfs} or nodes still being explored when iteration
+   * of {@link dfsReach} is stopped early.
+   */
+  postVisit?: (node: Node) => void;
+}
+
+/**
+ * Compute a path using the [depth-first search
+ * algorithm](https://en.wikipedia.org/wiki/Depth-first_search).
+ *
+ * The graph is explored with an explicit stack instead of recursion, so very deep
+ * graphs do not overflow the call stack. Multiple equivalent nodes (determined by the
+ * {@link DfsOptions.key()} function) are only visited once.
+ *
+ * The first path found starting from {@link DfsOptions.start} up to a node for which
+ * {@link DfsOptions.success()} returns `true` is returned, or `undefined` is returned if no
+ * successful path was found. The returned path comprises both the start and end node. It
+ * is not necessarily the shortest path; see {@link bfs} for that.
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals } from "https://deno.land/std@0.189.0/testing/asserts.ts";
+ * import { dfs } from "https://deno.land/x/lazy_pathfinding/directed/dfs.ts";
+ *
+ * const result = dfs({
+ *   start: 1,
+ *   successors: (n) => [n + 1, n * 2].filter((s) => s <= 17),
+ *   success: (n) => n === 17,
+ *   key: (n) => n,
+ * });
+ *
+ * assertEquals(result, [
+ *   1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 16, 17,
+ * ]);
+ * ```
+ */
+export function dfs<Node>(options: DfsOptions<Node>): Node[] | undefined {
+  for (const path of dfsInternal(options)) {
+    if (options.success(path[path.length - 1])) {
+      return path.slice();
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Visit all nodes that are reachable from a start node using the [depth-first search
+ * algorithm](https://en.wikipedia.org/wiki/Depth-first_search).
+ *
+ * The returned iterable is lazy: the successors of a node are only computed as the
+ * iteration progresses. Nodes are yielded in preorder, starting with {@link DfsOptions.start}.
+ * Multiple equivalent nodes (determined by the {@link DfsOptions.key()} function) are only
+ * yielded once. The graph is explored with an explicit stack instead of recursion, so very
+ * deep graphs do not overflow the call stack.
+ *
+ * # Example
+ *
+ * ```ts
+ * const reached = Array.from(dfsReach({
+ *   start: 1,
+ *   successors: (n) => n <= 4 ? [n * 2, n * 2 + 1] : [],
+ *   key: (n) => n,
+ * }));
+ * assertEquals(reached, [1, 2, 4, 8, 9, 5, 3, 6, 7]);
+ * ```
+ */
+export function* dfsReach<Node>(
+  options: Omit<DfsOptions<Node>, "success">,
+): Generator<Node, void, undefined> {
+  for (const path of dfsInternal(options)) {
+    yield path[path.length - 1];
+  }
+}
+
+/**
+ * Yields the current path from the start node every time a new node is visited.
+ * The yielded array is reused and mutated as the search continues.
+ */
+function* dfsInternal<Node>(
+  options: Omit<DfsOptions<Node>, "success">,
+): Generator<Node[], void, undefined> {
+  const seen = new Set<unknown>([options.key(options.start)]);
+  const path: Node[] = [options.start];
+  options.preVisit?.(options.start);
+  yield path;
+  const successorIterators: Iterator<Node>[] = [
+    options.successors(options.start)[Symbol.iterator](),
+  ];
+  while (successorIterators.length !== 0) {
+    const result = successorIterators[successorIterators.length - 1].next();
+    if (result.done) {
+      successorIterators.pop();
+      const node = path.pop()!;
+      options.postVisit?.(node);
+      continue;
+    }
+    const successor = result.value;
+    const successorKey = options.key(successor);
+    if (seen.has(successorKey)) {
+      continue;
+    }
+    seen.add(successorKey);
+    path.push(successor);
+    options.preVisit?.(successor);
+    yield path;
+    successorIterators.push(options.successors(successor)[Symbol.iterator]());
+  }
+}
@@ -1,5 +1,12 @@
 import { assertEquals } from "https://deno.land/std@0.189.0/testing/asserts.ts";
-import { dijkstra, dijkstraAll, dijkstraPartial } from "./dijkstra.ts";
+import {
+  buildPath,
+  dijkstra,
+  dijkstraAll,
+  dijkstraBidirectional,
+  dijkstraPartial,
+  dijkstraReach,
+} from "./dijkstra.ts";
 
 Deno.test("dijkstra() doc example", () => {
   type Pos = [number, number];
@@ -216,3 +223,250 @@ Deno.test("dijkstraPartial, no success because of maxCost", () => {
     cost: 10,
   });
 });
+
+Deno.test("dijkstraBidirectional() doc example", () => {
+  const result = dijkstraBidirectional({
+    start: 1,
+    goal: 12,
+    successors: (n) => [[n + 1, 1], [n * 2, 2]],
+    predecessors: (n) => n % 2 === 0 ? [[n - 1, 1], [n / 2, 2]] : [[n - 1, 1]],
+    key: (n) => n,
+  });
+  assertEquals(result, [[1, 2, 3, 6, 12], 6]);
+});
+
+Deno.test("dijkstraBidirectional() matches dijkstra()", () => {
+  type Pos = [number, number];
+  const SIZE = 12;
+  // Moving right or down is cheap, moving left or up is expensive, and some
+  // cells are walls.
+  const isWall = ([x, y]: Pos) => x % 4 === 2 && y % 5 !== 1;
+  const moves: [number, number, number][] = [
+    [1, 0, 1],
+    [0, 1, 2],
+    [-1, 0, 5],
+    [0, -1, 7],
+  ];
+  const inBounds = ([x, y]: Pos) => x >= 0 && y >= 0 && x < SIZE && y < SIZE;
+  const successors = ([x, y]: Pos): [Pos, number][] =>
+    moves
+      .map(([dx, dy, cost]): [Pos, number] => [[x + dx, y + dy], cost])
+      .filter(([p]) => inBounds(p) && !isWall(p));
+  const predecessors = ([x, y]: Pos): [Pos, number][] =>
+    moves
+      .map(([dx, dy, cost]): [Pos, number] => [[x - dx, y - dy], cost])
+      .filter(([p]) => inBounds(p) && !isWall(p));
+  const goal: Pos = [SIZE - 1, 0];
+
+  const result = dijkstraBidirectional<Pos>({
+    start: [0, SIZE - 1],
+    goal,
+    successors,
+    predecessors,
+    key: ([x, y]) => x + "," + y,
+  })!;
+  const expected = dijkstra<Pos>({
+    start: [0, SIZE - 1],
+    successors,
+    success: ([x, y]) => x === goal[0] && y === goal[1],
+    key: ([x, y]) => x + "," + y,
+  })!;
+  assertEquals(result[1], expected[1]);
+  assertEquals(result[0][0], [0, SIZE - 1]);
+  assertEquals(result[0][result[0].length - 1], goal);
+  let cost = 0;
+  for (let i = 1; i < result[0].length; i++) {
+    const [, moveCost] = successors(result[0][i - 1]).find(([p]) =>
+      p[0] === result[0][i][0] && p[1] === result[0][i][1]
+    )!;
+    cost += moveCost;
+  }
+  assertEquals(cost, result[1]);
+});
+
+Deno.test("dijkstraBidirectional() start is goal", () => {
+  const result = dijkstraBidirectional({
+    start: 1,
+    goal: 1,
+    successors: (n) => [[n + 1, 1]],
+    predecessors: (n) => [[n - 1, 1]],
+    key: (n) => n,
+  });
+  assertEquals(result, [[1], 0]);
+});
+
+Deno.test("dijkstraBidirectional() unreachable", () => {
+  const result = dijkstraBidirectional({
+    start: 1,
+    goal: 0,
+    successors: (n) => n < 5 ? [[n + 1, 1]] : [],
+    predecessors: (n) => n > 1 ? [[n - 1, 1]] : [],
+    key: (n) => n,
+  });
+  assertEquals(result, undefined);
+});
+
+Deno.test("dijkstraBidirectional() with max cost", () => {
+  const options = {
+    start: 0,
+    goal: 6,
+    successors: (n: number): [number, number][] => [[n + 1, 1]],
+    predecessors: (n: number): [number, number][] => [[n - 1, 1]],
+    key: (n: number) => n,
+  };
+  assertEquals(dijkstraBidirectional({ ...options, maxCost: 5 }), undefined);
+  assertEquals(dijkstraBidirectional({ ...options, maxCost: 6 }), [
+    [0, 1, 2, 3, 4, 5, 6],
+    6,
+  ]);
+});
+
+Deno.test("dijkstra() with multiple starts", () => {
+  const result = dijkstra({
+    starts: [[0, 0], [10, 3]],
+    successors: (n): [number, number][] => [[n - 1, 1], [n + 1, 1]],
+    success: (n) => n === 7,
+    key: (n) => n,
+  });
+  assertEquals(result, [[10, 9, 8, 7], 6]);
+});
+
+Deno.test("dijkstra() with multiple start nodes", () => {
+  type Pos = [number, number];
+  const result = dijkstra<Pos>({
+    startNodes: [[0, 0], [5, 0]],
+    successors: ([x, y]): [Pos, number][] => [[[x - 1, y], 1], [[x + 1, y], 1]],
+    success: ([x]) => x === 3,
+    key: ([x, y]) => x + "," + y,
+  });
+  assertEquals(result, [[[5, 0], [4, 0], [3, 0]], 2]);
+});
+
+Deno.test("dijkstraAll() with multiple starts", () => {
+  const encounteredNodes = dijkstraAll({
+    starts: [[0, 0], [10, 3], [10, 1]],
+    successors: (n): [number, number][] =>
+      [[n - 1, 1], [n + 1, 1]].filter(([m]) => m >= 0 && m <= 10) as [
+        number,
+        number,
+      ][],
+    key: (n) => n,
+  });
+  assertEquals(encounteredNodes.size, 11);
+  assertEquals(encounteredNodes.get(10), {
+    node: 10,
+    parentKey: undefined,
+    startKey: 10,
+    cost: 1,
+  });
+  assertEquals(encounteredNodes.get(5), {
+    node: 5,
+    parentKey: 4,
+    startKey: 0,
+    cost: 5,
+  });
+  assertEquals(encounteredNodes.get(6), {
+    node: 6,
+    parentKey: 7,
+    startKey: 10,
+    cost: 5,
+  });
+});
+
+Deno.test("dijkstraBidirectional() with multiple starts", () => {
+  const result = dijkstraBidirectional({
+    starts: [[0, 0], [10, 3]],
+    goal: 7,
+    successors: (n): [number, number][] => [[n - 1, 1], [n + 1, 1]],
+    predecessors: (n): [number, number][] => [[n - 1, 1], [n + 1, 1]],
+    key: (n) => n,
+  });
+  assertEquals(result, [[10, 9, 8, 7], 6]);
+});
+
+Deno.test("dijkstraReach() doc example", () => {
+  const reach = dijkstraReach({
+    start: 1,
+    successors: (n) => [[n * 2, 10], [n * 2 + 1, 10]],
+    key: (n) => n,
+  });
+  for (const { node, cost } of reach) {
+    if (cost >= 20 && node % 3 === 0) {
+      break;
+    }
+  }
+  assertEquals(buildPath(6, reach.encounteredNodes), [1, 3, 6]);
+});
+
+Deno.test("dijkstraReach() yields every node once in cost order", () => {
+  const options = {
+    start: 1,
+    successors: (n: number): [number, number][] =>
+      n <= 20
+        ? [[n * 2, n % 3 + 1], [n + 3, 2], [n - 1, 1]].filter(([m]) =>
+          m >= 1
+        ) as [number, number][]
+        : [],
+    key: (n: number) => n,
+  };
+  const reached = Array.from(dijkstraReach(options));
+  const expected = dijkstraAll(options);
+  assertEquals(reached.length, expected.size);
+  for (let i = 0; i < reached.length; i++) {
+    assertEquals(reached[i], expected.get(reached[i].node));
+    if (i > 0) {
+      assertEquals(reached[i - 1].cost <= reached[i].cost, true);
+    }
+  }
+});
+
+Deno.test("dijkstraReach() only computes the successors it needs", () => {
+  const expanded: number[] = [];
+  const reach = dijkstraReach({
+    start: 0,
+    successors: (n): [number, number][] => {
+      expanded.push(n);
+      return [[n + 1, 1]];
+    },
+    key: (n) => n,
+  });
+  assertEquals(reach.next().value, {
+    node: 0,
+    parentKey: undefined,
+    cost: 0,
+  });
+  assertEquals(expanded, []);
+  assertEquals(reach.next().value?.node, 1);
+  assertEquals(expanded, [0]);
+  assertEquals(buildPath(1, reach.encounteredNodes), [0, 1]);
+});
+
+Deno.test("dijkstra() tieBreak", () => {
+  type Pos = [number, number];
+  const options = {
+    start: [0, 0] as Pos,
+    successors: ([x, y]: Pos): [Pos, number][] =>
+      ([[x - 1, y], [x, y - 1], [x + 1, y], [x, y + 1]] as Pos[])
+        .filter(([x, y]) => x >= 0 && x < 3 && y >= 0 && y < 3)
+        .map((p) => [p, 1]),
+    success: ([x, y]: Pos) => x === 2 && y === 2,
+    key: ([x, y]: Pos) => x + "," + y,
+  };
+  assertEquals(
+    dijkstra({ ...options, tieBreak: (a, b) => b[0] - a[0] }),
+    [[[0, 0], [1, 0], [2, 0], [2, 1], [2, 2]], 4],
+  );
+  assertEquals(
+    dijkstra({ ...options, tieBreak: (a, b) => b[1] - a[1] }),
+    [[[0, 0], [0, 1], [0, 2], [1, 2], [2, 2]], 4],
+  );
+  // The successors going right are listed before the ones going down.
+  assertEquals(
+    dijkstra({ ...options, tieBreak: "fifo" }),
+    [[[0, 0], [1, 0], [2, 0], [2, 1], [2, 2]], 4],
+  );
+  assertEquals(
+    dijkstra({ ...options, tieBreak: "lifo" }),
+    [[[0, 0], [0, 1], [0, 2], [1, 2], [2, 2]], 4],
+  );
+});
@@ -1,12 +1,37 @@
 import { BinaryHeap } from "https://deno.land/std@0.189.0/collections/binary_heap.ts";
 import { reversePath } from "./_reverse_path.ts";
+import { getStarts, hasSeveralStarts, withStartKey } from "./_starts.ts";
+import {
+  compareIndexes,
+  TieBreak,
+  tieBreakCompareFn,
+  TieBreakHolder,
+} from "./_tie_break.ts";
 import { CostOptions, numberCostOptions } from "./cost_options.ts";
 
 export interface DijkstraOptions<Node, Cost = number> {
   /**
-   * The starting node.
+   * The starting node. Either this, {@link DijkstraOptions.starts} or
+   * {@link DijkstraOptions.startNodes} must be given.
    */
-  start: Node;
+  start?: Node;
+  /**
+   * The starting nodes, along with the initial cost of each of them. This can be
+   * given instead of {@link DijkstraOptions.start} to search from the closest of
+   * several nodes at once, in which case {@link DijkstraOptions.start} and
+   * {@link DijkstraOptions.startNodes} are ignored.
+   */
+  starts?: Iterable<[Node, Cost]>;
+  /**
+   * The starting nodes, each with a zero initial cost. This can be given instead of
+   * {@link DijkstraOptions.start} to search from the closest of several nodes at once, in
+   * which case {@link DijkstraOptions.start} is ignored.
+   *
+   * This is a separate option from {@link DijkstraOptions.starts} because a bare node
+   * can't be told apart from a `[node, cost]` pair when the nodes are themselves
+   * arrays, such as `[x, y]` positions.
+   */
+  startNodes?: Iterable<Node>;
   /**
    * Returns a list of successors for a given node, along with the cost for
    * moving from the node to the successor.
@@ -44,8 +69,16 @@ export interface DijkstraOptions<Node, Cost = number> {
    * Stop considering paths that have a cost greater than this value.
    */
   maxCost?: Cost;
+  /**
+   * How to order the nodes with the same cost, which changes which path is returned
+   * when there are several shortest paths. By default, the order of the nodes with the
+   * same cost is unspecified.
+   */
+  tieBreak?: TieBreak<Node>;
 }
 
+export type { TieBreak };
+
 /**
  * Compute a shortest path using the [Dijkstra search
  * algorithm](https://en.wikipedia.org/wiki/Dijkstra's_algorithm).
@@ -53,9 +86,9 @@ export interface DijkstraOptions<Node, Cost = number> {
  * Multiple equivalent nodes (determined by the {@link DijkstraOptions.key()} function) will never
  * be included twice in the path.
  *
- * The shortest path starting from {@link DijkstraOptions.start} up to a node for which {@link DijkstraOptions.success()} returns `true`
- * is computed and returned along with its total cost, or `undefined` is returned if no successful path
- * was found. The returned path comprises both the start and end node.
+ * The shortest path starting from {@link DijkstraOptions.start} (or from any of {@link DijkstraOptions.starts}) up to a node
+ * for which {@link DijkstraOptions.success()} returns `true` is computed and returned along with its total cost, or `undefined`
+ * is returned if no successful path was found. The returned path comprises both the start and end node.
  *
  * # Example
  *
@@ -106,6 +139,11 @@ export interface DijkstraEncounteredNodeEntry<Node, Cost> {
    * Either the key of the parent or `undefined`.
    */
   parentKey: unknown;
+  /**
+   * The key of the start node this node was reached from. This is only set when the
+   * search starts from {@link DijkstraOptions.starts} or {@link DijkstraOptions.startNodes}.
+   */
+  startKey?: unknown;
   cost: Cost;
 }
 
@@ -115,7 +153,8 @@ export interface DijkstraEncounteredNodeEntry<Node, Cost> {
  * using the [Dijkstra search algorithm](https://en.wikipedia.org/wiki/Dijkstra's_algorithm).
  *
  * The result is a map where the key of every reachable node is associated with the node
- * value, an optimal parent node, and a cost from the start node.
+ * value, an optimal parent node, the start node it was reached from, and a cost from that
+ * start node.
  *
  * The {@link buildPath} function can be used to build a full path from the starting point to one
  * of the reachable targets.
@@ -162,8 +201,8 @@ export function dijkstraAll<Node, Cost>(
  *
  * The result is a map where the key of every node examined up until the algorithm reaches a node where
  * {@link DijkstraOptions.success} returns true is associated with a node value, an optimal parent
- * node, and a cost from the start node, as well as the node which caused the algorithm to stop if
- * any.
+ * node, the start node it was reached from, and a cost from that start node, as well as the node
+ * which caused the algorithm to stop if any.
  *
  * The {@link buildPath} function can be used to build a full path from the starting point to one
  * of the reachable targets.
@@ -178,17 +217,84 @@ export function dijkstraPartial<Node, Cost>(
   return [encounteredNodes, successNode];
 }
 
+/**
+ * An iterator over the nodes reachable from a starting point, which also exposes the
+ * state of the search.
+ */
+export interface DijkstraReach<Node, Cost>
+  extends IterableIterator<DijkstraEncounteredNodeEntry<Node, Cost>> {
+  /**
+   * A map where the key of every node encountered so far is associated with the node value, a
+   * parent node, the start node it was reached from, and a cost from that start node. The entries
+   * of the nodes which have already been yielded are final, and the {@link buildPath} function can
+   * be used with this map to build a full path from the starting point to any of them.
+   */
+  readonly encounteredNodes: ReadonlyMap<
+    unknown,
+    DijkstraEncounteredNodeEntry<Node, Cost>
+  >;
+}
+
+/**
+ * Visit all nodes that are reachable from a starting point in order of increasing cost
+ * using the [Dijkstra search algorithm](https://en.wikipedia.org/wiki/Dijkstra's_algorithm).
+ *
+ * Unlike {@link dijkstraAll} and {@link dijkstraPartial}, the search is lazy: each node is only
+ * reached when the iteration gets to it, so the iteration can be stopped at any point, for
+ * example depending on the nodes seen so far. Every reachable node is yielded once, as its
+ * entry with the node value, an optimal parent node, the start node it was reached from, and
+ * its minimum cost from that start node, in non-decreasing order of cost.
+ *
+ * # Example
+ *
+ * ```ts
+ * const reach = dijkstraReach({
+ *   start: 1,
+ *   successors: (n) => [[n * 2, 10], [n * 2 + 1, 10]],
+ *   key: (n) => n,
+ * });
+ * for (const { node, cost } of reach) {
+ *   if (cost >= 20 && node % 3 === 0) {
+ *     break;
+ *   }
+ * }
+ * assertEquals(buildPath(6, reach.encounteredNodes), [1, 3, 6]);
+ * ```
+ */
+export function dijkstraReach<Node, Cost = number>(
+  options: Omit<DijkstraOptions<Node, Cost>, "success">,
+): DijkstraReach<Node, Cost> {
+  const encounteredNodes = new Map<
+    unknown,
+    DijkstraEncounteredNodeEntry<Node, Cost>
+  >();
+  const steps = dijkstraSteps(options, encounteredNodes);
+  return {
+    encounteredNodes,
+    next() {
+      const result = steps.next();
+      return result.done
+        ? result
+        : { done: false, value: encounteredNodes.get(result.value)! };
+    },
+    [Symbol.iterator]() {
+      return this;
+    },
+  };
+}
+
 /**
  * Build a path leading to a target according to a parents map, which must
  * contain no loop. This function can be used after {@link dijkstraAll} or
- * {@link dijkstraPartial} to build a path from a starting point to a reachable target.
+ * {@link dijkstraPartial}, or during {@link dijkstraReach}, to build a path from a starting
+ * point to a reachable target.
  *
  * @param target is reachable target.
  * @param encounteredNodes is a map containing an optimal parent, a node's value, and an associated
  *   cost which is ignored here for every reachable node's key.
  *
  * @returns an array with a path from the farthest parent up to the target, including
- * the target itself.
+ * the target itself. The first node of the path is the start node the target was reached from.
  */
 export function buildPath<Node>(
   targetKey: unknown,
@@ -201,48 +307,269 @@ export function buildPath<Node>(
     .map((nodeKey) => encounteredNodes.get(nodeKey)!.node);
 }
 
+export interface DijkstraBidirectionalOptions<Node, Cost = number>
+  extends Omit<DijkstraOptions<Node, Cost>, "success"> {
+  /**
+   * The node to reach.
+   */
+  goal: Node;
+  /**
+   * Returns a list of predecessors for a given node, along with the cost for
+   * moving from the predecessor to the node. This is the mirror of
+   * {@link DijkstraOptions.successors}.
+   */
+  predecessors: (node: Node) => Iterable<[Node, Cost]>;
+}
+
 /**
- * @returns A map of encountered node keys to their parent key and cost, and the key
- * of the goal node reached if any or else `undefined`.
+ * Compute a shortest path using a bidirectional version of the [Dijkstra search
+ * algorithm](https://en.wikipedia.org/wiki/Dijkstra's_algorithm).
+ *
+ * The graph is searched from the start nodes through the successors
+ * and from {@link DijkstraBidirectionalOptions.goal} through the predecessors at the same time
+ * until the two searches meet. This usually explores far fewer nodes than {@link dijkstra} when
+ * both ends of the path are known.
+ *
+ * Multiple equivalent nodes (determined by the {@link DijkstraOptions.key()} function) will never
+ * be included twice in the path.
+ *
+ * The shortest path from the start node to the goal node is computed and returned along with its
+ * total cost, or `undefined` is returned if the goal can't be reached. The returned path
+ * comprises both the start and goal node.
+ *
+ * # Example
+ *
+ * ```ts
+ * const result = dijkstraBidirectional({
+ *   start: 1,
+ *   goal: 12,
+ *   successors: (n) => [[n + 1, 1], [n * 2, 2]],
+ *   predecessors: (n) => n % 2 === 0 ? [[n - 1, 1], [n / 2, 2]] : [[n - 1, 1]],
+ *   key: (n) => n,
+ * });
+ * assertEquals(result, [[1, 2, 3, 6, 12], 6]);
+ * ```
  */
-function dijkstraInternal<Node, Cost>(
-  options: DijkstraOptions<Node, Cost>,
-): [Map<unknown, DijkstraEncounteredNodeEntry<Node, Cost>>, unknown] {
+export function dijkstraBidirectional<Node, Cost = number>(
+  options: DijkstraBidirectionalOptions<Node, Cost>,
+): [Node[], Cost] | undefined {
   const costOptions = options.costOptions ??
     numberCostOptions as CostOptions<unknown> as CostOptions<Cost>;
 
-  const toSee = new BinaryHeap<SmallestCostHolder<Cost>>((a, b) =>
-    compareSmallestCostHolders(costOptions, a, b)
+  interface Side<Node, Cost> {
+    encounteredNodes: Map<unknown, DijkstraEncounteredNodeEntry<Node, Cost>>;
+    toSee: ToSee<Cost>;
+    neighbors: (node: Node) => Iterable<[Node, Cost]>;
+  }
+  const createSide = (
+    starts: Iterable<[Node, Cost]>,
+    recordStartKey: boolean,
+    neighbors: (node: Node) => Iterable<[Node, Cost]>,
+  ): Side<Node, Cost> => {
+    const encounteredNodes = new Map<
+      unknown,
+      DijkstraEncounteredNodeEntry<Node, Cost>
+    >();
+    const side: Side<Node, Cost> = {
+      encounteredNodes,
+      toSee: createToSee(costOptions, options.tieBreak, encounteredNodes),
+      neighbors,
+    };
+    seedEncounteredNodes(
+      starts,
+      recordStartKey,
+      options,
+      costOptions,
+      side.encounteredNodes,
+      side.toSee,
+    );
+    return side;
+  };
+  /**
+   * Discard the outdated entries at the top of the binary heap and return the
+   * smallest valid one.
+   */
+  const peek = (
+    side: Side<Node, Cost>,
+  ): SmallestCostHolder<Cost> | undefined => {
+    while (true) {
+      const smallestCostHolder = side.toSee.heap.peek();
+      if (
+        !smallestCostHolder ||
+        costOptions.compareFn(
+            smallestCostHolder.cost,
+            side.encounteredNodes.get(smallestCostHolder.nodeKey)!.cost,
+          ) <= 0
+      ) {
+        return smallestCostHolder;
+      }
+      side.toSee.heap.pop();
+    }
+  };
+
+  const forward = createSide(
+    getStarts(options, costOptions),
+    hasSeveralStarts(options),
+    options.successors,
   );
-  toSee.push({
-    cost: costOptions.zero,
-    nodeKey: options.key(options.start),
-  });
+  const backward = createSide(
+    [[options.goal, costOptions.zero]],
+    false,
+    options.predecessors,
+  );
+  let bestCost: Cost | undefined;
+  let meetingKey: unknown;
+  const goalKey = options.key(options.goal);
+  const goalStartEntry = forward.encounteredNodes.get(goalKey);
+  if (goalStartEntry) {
+    bestCost = goalStartEntry.cost;
+    meetingKey = goalKey;
+  }
 
+  while (true) {
+    const forwardSmallest = peek(forward);
+    const backwardSmallest = peek(backward);
+    // Once either side has run out of nodes, every path has been considered.
+    if (!forwardSmallest || !backwardSmallest) {
+      break;
+    }
+    // No path going through the remaining nodes can be better than the best
+    // path found so far.
+    if (
+      bestCost !== undefined &&
+      costOptions.compareFn(
+          costOptions.add(forwardSmallest.cost, backwardSmallest.cost),
+          bestCost,
+        ) >= 0
+    ) {
+      break;
+    }
+    const [side, otherSide] =
+      costOptions.compareFn(forwardSmallest.cost, backwardSmallest.cost) <= 0
+        ? [forward, backward]
+        : [backward, forward];
+    const smallestCostHolder = side.toSee.heap.pop()!;
+    const { node, startKey, cost } = side.encounteredNodes.get(
+      smallestCostHolder.nodeKey,
+    )!;
+    for (const [neighbor, moveCost] of side.neighbors(node)) {
+      const newCost = costOptions.add(cost, moveCost);
+
+      if (
+        options.maxCost !== undefined &&
+        costOptions.compareFn(newCost, options.maxCost) > 0
+      ) {
+        continue;
+      }
+
+      const neighborKey = options.key(neighbor);
+      const encounteredNodeEntry = side.encounteredNodes.get(neighborKey);
+
+      // if we've never seen this node or encounteredNodeEntry.cost > newCost,
+      // then record this path as the best path to get to get to this node.
+      if (
+        !encounteredNodeEntry ||
+        costOptions.compareFn(encounteredNodeEntry.cost, newCost) > 0
+      ) {
+        side.encounteredNodes.set(
+          neighborKey,
+          withStartKey({
+            node: neighbor,
+            parentKey: smallestCostHolder.nodeKey,
+            cost: newCost,
+          }, startKey),
+        );
+        pushToSee(
+          side.toSee,
+          newCost,
+          neighborKey,
+          smallestCostHolder.depth + 1,
+        );
+
+        // Check whether this node connects both searches with a better path.
+        const otherEntry = otherSide.encounteredNodes.get(neighborKey);
+        if (otherEntry) {
+          const totalCost = costOptions.add(newCost, otherEntry.cost);
+          if (
+            (options.maxCost === undefined ||
+              costOptions.compareFn(totalCost, options.maxCost) <= 0) &&
+            (bestCost === undefined ||
+              costOptions.compareFn(totalCost, bestCost) < 0)
+          ) {
+            bestCost = totalCost;
+            meetingKey = neighborKey;
+          }
+        }
+      }
+    }
+  }
+
+  if (bestCost === undefined) {
+    return undefined;
+  }
+  const forwardPath = buildPath(meetingKey, forward.encounteredNodes);
+  const backwardPath = buildPath(meetingKey, backward.encounteredNodes);
+  backwardPath.reverse();
+  return [forwardPath.concat(backwardPath.slice(1)), bestCost];
+}
+
+/**
+ * @returns A map of encountered node keys to their parent key and cost, and the key
+ * of the goal node reached if any or else `undefined`.
+ */
+function dijkstraInternal<Node, Cost>(
+  options: DijkstraOptions<Node, Cost>,
+): [Map<unknown, DijkstraEncounteredNodeEntry<Node, Cost>>, unknown] {
   const encounteredNodes = new Map<
     unknown,
     DijkstraEncounteredNodeEntry<Node, Cost>
   >();
-  encounteredNodes.set(options.key(options.start), {
-    node: options.start,
-    parentKey: undefined,
-    cost: costOptions.zero,
-  });
+  for (const nodeKey of dijkstraSteps(options, encounteredNodes)) {
+    if (options.success(encounteredNodes.get(nodeKey)!.node)) {
+      return [encounteredNodes, nodeKey];
+    }
+  }
+  return [encounteredNodes, undefined];
+}
+
+/**
+ * Run the search, recording every encountered node into `encounteredNodes`.
+ *
+ * @returns An iterator over the keys of the nodes in the order they are reached, at which
+ * point their entry in `encounteredNodes` is final. The successors of a node are only
+ * computed when the iteration resumes after it.
+ */
+function* dijkstraSteps<Node, Cost>(
+  options: Omit<DijkstraOptions<Node, Cost>, "success">,
+  encounteredNodes: Map<unknown, DijkstraEncounteredNodeEntry<Node, Cost>>,
+): Generator<unknown, void, undefined> {
+  const costOptions = options.costOptions ??
+    numberCostOptions as CostOptions<unknown> as CostOptions<Cost>;
+
+  const toSee = createToSee(costOptions, options.tieBreak, encounteredNodes);
+  seedEncounteredNodes(
+    getStarts(options, costOptions),
+    hasSeveralStarts(options),
+    options,
+    costOptions,
+    encounteredNodes,
+    toSee,
+  );
   while (true) {
-    const smallestCostHolder = toSee.pop();
+    const smallestCostHolder = toSee.heap.pop();
     if (!smallestCostHolder) {
       break;
     }
-    const { node, cost } = encounteredNodes.get(smallestCostHolder.nodeKey)!;
-    if (options.success(node)) {
-      return [encounteredNodes, smallestCostHolder.nodeKey];
-    }
+    const { node, startKey, cost } = encounteredNodes.get(
+      smallestCostHolder.nodeKey,
+    )!;
     // We may have inserted a node several time into the binary heap if we found
     // a better way to access it. Ensure that we are currently dealing with the
     // best path and discard the others.
     if (costOptions.compareFn(smallestCostHolder.cost, cost) > 0) {
       continue;
     }
+    yield smallestCostHolder.nodeKey;
     const successors = options.successors(node);
     for (const [successor, moveCost] of successors) {
       const newCost = costOptions.add(cost, moveCost);
@@ -263,33 +590,104 @@ function dijkstraInternal<Node, Cost>(
         !encounteredNodeEntry ||
         costOptions.compareFn(encounteredNodeEntry.cost, newCost) > 0
       ) {
-        encounteredNodes.set(successorKey, {
-          node: successor,
-          parentKey: smallestCostHolder.nodeKey,
-          cost: newCost,
-        });
-        toSee.push({
-          cost: newCost,
-          nodeKey: successorKey,
-        });
+        encounteredNodes.set(
+          successorKey,
+          withStartKey({
+            node: successor,
+            parentKey: smallestCostHolder.nodeKey,
+            cost: newCost,
+          }, startKey),
+        );
+        pushToSee(
+          toSee,
+          newCost,
+          successorKey,
+          smallestCostHolder.depth + 1,
+        );
       }
     }
   }
-  return [encounteredNodes, undefined];
 }
 
-interface SmallestCostHolder<Cost> {
+/**
+ * Record the start nodes as encountered and add them to the binary heap. Start nodes
+ * given multiple times keep their smallest cost, and start nodes with a cost greater
+ * than {@link DijkstraOptions.maxCost} are ignored.
+ */
+function seedEncounteredNodes<Node, Cost>(
+  starts: Iterable<[Node, Cost]>,
+  recordStartKey: boolean,
+  options: Pick<DijkstraOptions<Node, Cost>, "key" | "maxCost">,
+  costOptions: CostOptions<Cost>,
+  encounteredNodes: Map<unknown, DijkstraEncounteredNodeEntry<Node, Cost>>,
+  toSee: ToSee<Cost>,
+) {
+  for (const [start, cost] of starts) {
+    if (
+      options.maxCost !== undefined &&
+      costOptions.compareFn(cost, options.maxCost) > 0
+    ) {
+      continue;
+    }
+    const startKey = options.key(start);
+    const encounteredNodeEntry = encounteredNodes.get(startKey);
+    if (
+      !encounteredNodeEntry ||
+      costOptions.compareFn(encounteredNodeEntry.cost, cost) > 0
+    ) {
+      encounteredNodes.set(
+        startKey,
+        withStartKey(
+          { node: start, parentKey: undefined, cost },
+          recordStartKey ? startKey : undefined,
+        ),
+      );
+      pushToSee(toSee, cost, startKey, 0);
+    }
+  }
+}
+
+interface SmallestCostHolder<Cost> extends TieBreakHolder {
   /**
    * The cost to reach this node.
    */
   cost: Cost;
-  nodeKey: unknown;
 }
 
-function compareSmallestCostHolders<Cost>(
+interface ToSee<Cost> {
+  heap: BinaryHeap<SmallestCostHolder<Cost>>;
+  /**
+   * The index of the next item added to the binary heap.
+   */
+  nextIndex: number;
+}
+
+function createToSee<Node, Cost>(
   costOptions: CostOptions<Cost>,
-  a: SmallestCostHolder<Cost>,
-  b: SmallestCostHolder<Cost>,
-): number {
-  return costOptions.compareFn(a.cost, b.cost);
+  tieBreak: TieBreak<Node> | undefined,
+  encounteredNodes: ReadonlyMap<
+    unknown,
+    DijkstraEncounteredNodeEntry<Node, Cost>
+  >,
+): ToSee<Cost> {
+  const tieBreakCompare = tieBreakCompareFn(
+    tieBreak,
+    (nodeKey) => encounteredNodes.get(nodeKey)!.node,
+  );
+  return {
+    heap: new BinaryHeap<SmallestCostHolder<Cost>>((a, b) =>
+      costOptions.compareFn(a.cost, b.cost) ||
+      (tieBreakCompare ? tieBreakCompare(a, b) || compareIndexes(a, b) : 0)
+    ),
+    nextIndex: 0,
+  };
+}
+
+function pushToSee<Cost>(
+  toSee: ToSee<Cost>,
+  cost: Cost,
+  nodeKey: unknown,
+  depth: number,
+) {
+  toSee.heap.push({ cost, nodeKey, depth, index: toSee.nextIndex++ });
 }
@@ -0,0 +1,120 @@
+import { assertEquals } from "https://deno.land/std@0.189.0/testing/asserts.ts";
+import { dominators } from "./dominators.ts";
+import { bfsReach } from "./bfs.ts";
+
+Deno.test("dominators() doc example", () => {
+  const edges: Record<string, string[]> = {
+    entry: ["check"],
+    check: ["then", "else"],
+    then: ["end"],
+    else: ["end"],
+    end: ["check"],
+  };
+  const result = dominators({
+    start: "entry",
+    successors: (n) => edges[n],
+    key: (n) => n,
+  });
+  assertEquals(result.immediateDominator("end"), "check");
+  assertEquals(result.dominates("check", "then"), true);
+  assertEquals(result.dominates("then", "end"), false);
+  assertEquals(result.dominanceFrontier("then"), ["end"]);
+  assertEquals(result.dominanceFrontier("end"), ["check"]);
+
+  assertEquals(result.immediateDominator("entry"), undefined);
+  assertEquals(result.immediateDominator("check"), "entry");
+  assertEquals(result.dominates("entry", "entry"), true);
+  assertEquals(result.dominates("end", "check"), false);
+  assertEquals(result.dominanceFrontier("check"), ["check"]);
+  assertEquals(result.dominanceFrontier("entry"), []);
+});
+
+Deno.test("dominators() unreachable nodes", () => {
+  const result = dominators({
+    start: 1,
+    successors: (n) => n < 3 ? [n + 1] : [],
+    key: (n) => n,
+  });
+  assertEquals(result.immediateDominator(3), 2);
+  assertEquals(result.immediateDominator(4), undefined);
+  assertEquals(result.dominates(1, 4), false);
+  assertEquals(result.dominates(4, 4), false);
+  assertEquals(result.dominanceFrontier(4), []);
+});
+
+Deno.test("dominators() loop back to the start", () => {
+  const result = dominators({
+    start: 0,
+    successors: (n) => [(n + 1) % 3],
+    key: (n) => n,
+  });
+  assertEquals(result.immediateDominator(2), 1);
+  assertEquals(result.dominanceFrontier(0), [0]);
+  assertEquals(result.dominanceFrontier(2), [0]);
+});
+
+Deno.test("dominators() random graphs", () => {
+  let seed = 3;
+  const random = () => {
+    seed = (seed * 1103515245 + 12345) % 2147483648;
+    return seed / 2147483648;
+  };
+  for (let round = 0; round < 20; round++) {
+    const size = 25;
+    const graph = Array.from(
+      { length: size },
+      () =>
+        Array.from(
+          { length: Math.floor(random() * 3) + 1 },
+          () => Math.floor(random() * size),
+        ),
+    );
+    const successors = (n: number) => graph[n];
+    const result = dominators({ start: 0, successors, key: (n) => n });
+
+    const reachable = new Set(
+      bfsReach({ start: 0, successors, key: (n) => n }),
+    );
+    // a dominates b if b can't be reached from the start without going through a.
+    const naiveDominates = (a: number, b: number) =>
+      reachable.has(a) && reachable.has(b) &&
+      (a === b || a === 0 ||
+        !new Set(
+          bfsReach({
+            start: 0,
+            successors: (n) => successors(n).filter((m) => m !== a),
+            key: (n) => n,
+          }),
+        ).has(b));
+    for (let a = 0; a < size; a++) {
+      for (let b = 0; b < size; b++) {
+        assertEquals(result.dominates(a, b), naiveDominates(a, b));
+      }
+    }
+    for (let b = 0; b < size; b++) {
+      const frontier = new Set<number>();
+      for (const x of reachable) {
+        for (const y of successors(x)) {
+          if (naiveDominates(b, x) && !(b !== y && naiveDominates(b, y))) {
+            frontier.add(y);
+          }
+        }
+      }
+      assertEquals(
+        result.dominanceFrontier(b).sort((x, y) => x - y),
+        Array.from(frontier).sort((x, y) => x - y),
+      );
+      const immediateDominator = result.immediateDominator(b);
+      if (!reachable.has(b) || b === 0) {
+        assertEquals(immediateDominator, undefined);
+        continue;
+      }
+      // The immediate dominator is the strict dominator dominated by every other one.
+      for (let a = 0; a < size; a++) {
+        if (a !== b && naiveDominates(a, b)) {
+          assertEquals(naiveDominates(a, immediateDominator!), true);
+        }
+      }
+    }
+  }
+});
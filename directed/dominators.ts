@@ -0,0 +1,223 @@
+import { dfsReach } from "./dfs.ts";
+
+export interface DominatorsOptions<Node> {
+  /**
+   * The entry node of the graph, which dominates every reachable node.
+   */
+  start: Node;
+  /**
+   * Returns a list of successors for a given node.
+   */
+  successors: (node: Node) => Iterable<Node>;
+  /**
+   * A function that returns a unique key for a node. Equal nodes must return keys
+   * that are equal.
+   * If the nodes are primitive values, are represented by persistent unique objects,
+   * or are never encountered more than once, then the identity function (`x => x`)
+   * can be used here.
+   * Otherwise, a custom function that converts the node to a string is
+   * recommended. (`JSON.stringify` can be used for this.)
+   */
+  key: (node: Node) => unknown;
+}
+
+export interface Dominators<Node> {
+  /**
+   * @returns The immediate dominator of the node, which is the closest node that every
+   * path from the start node to this node goes through, or `undefined` for the start
+   * node and for nodes which are not reachable from it.
+   */
+  immediateDominator(node: Node): Node | undefined;
+  /**
+   * @returns Whether every path from the start node to `b` goes through `a`. Every
+   * reachable node dominates itself. This is `false` if either node is not reachable
+   * from the start node.
+   */
+  dominates(a: Node, b: Node): boolean;
+  /**
+   * @returns The dominance frontier of the node, which contains the nodes that have a
+   * predecessor dominated by this node without being strictly dominated by it
+   * themselves. This is empty for nodes which are not reachable from the start node.
+   */
+  dominanceFrontier(node: Node): Node[];
+}
+
+/**
+ * Compute the [dominators](https://en.wikipedia.org/wiki/Dominator_(graph_theory)) of every
+ * node reachable from {@link DominatorsOptions.start} using the algorithm of Cooper, Harvey
+ * and Kennedy ([A Simple, Fast Dominance
+ * Algorithm](https://www.cs.tufts.edu/comp/150FP/archive/keith-cooper/dom14.pdf)).
+ *
+ * The reachable part of the graph is explored up front, and the successors of every node are
+ * only computed once. Multiple equivalent nodes (determined by the
+ * {@link DominatorsOptions.key()} function) are only included once. The dominance frontiers
+ * are only computed when first requested.
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals } from "https://deno.land/std@0.189.0/testing/asserts.ts";
+ * import { dominators } from "https://deno.land/x/lazy_pathfinding/directed/dominators.ts";
+ *
+ * // entry -> check -> then -> end
+ * //          check -> else -> end -> check
+ * const edges: Record<string, string[]> = {
+ *   entry: ["check"],
+ *   check: ["then", "else"],
+ *   then: ["end"],
+ *   else: ["end"],
+ *   end: ["check"],
+ * };
+ * const result = dominators({
+ *   start: "entry",
+ *   successors: (n) => edges[n],
+ *   key: (n) => n,
+ * });
+ * assertEquals(result.immediateDominator("end"), "check");
+ * assertEquals(result.dominates("check", "then"), true);
+ * assertEquals(result.dominates("then", "end"), false);
+ * assertEquals(result.dominanceFrontier("then"), ["end"]);
+ * assertEquals(result.dominanceFrontier("end"), ["check"]);
+ * ```
+ */
+export function dominators<Node>(
+  options: DominatorsOptions<Node>,
+): Dominators<Node> {
+  // The nodes are indexed in postorder, so the start node has the highest index, and
+  // every node has a lower index than its dominators, which are all its ancestors in the
+  // depth-first search tree.
+  const successorKeys = new Map<unknown, unknown[]>();
+  const nodes: Node[] = [];
+  const indexesByKey = new Map<unknown, number>();
+  for (
+    const _ of dfsReach({
+      start: options.start,
+      successors: (node) => {
+        const successors = Array.from(options.successors(node));
+        successorKeys.set(options.key(node), successors.map(options.key));
+        return successors;
+      },
+      key: options.key,
+      postVisit: (node) => {
+        indexesByKey.set(options.key(node), nodes.length);
+        nodes.push(node);
+      },
+    })
+  ) {
+    // Explore the whole reachable graph.
+  }
+  const n = nodes.length;
+  const startIndex = n - 1;
+  const predecessors: number[][] = nodes.map(() => []);
+  nodes.forEach((node, index) => {
+    for (const successorKey of successorKeys.get(options.key(node))!) {
+      predecessors[indexesByKey.get(successorKey)!].push(index);
+    }
+  });
+
+  const immediateDominators = new Array<number | undefined>(n);
+  immediateDominators[startIndex] = startIndex;
+  const intersect = (a: number, b: number) => {
+    while (a !== b) {
+      while (a < b) {
+        a = immediateDominators[a]!;
+      }
+      while (b < a) {
+        b = immediateDominators[b]!;
+      }
+    }
+    return a;
+  };
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (let index = startIndex - 1; index >= 0; index--) {
+      let newImmediateDominator: number | undefined;
+      for (const predecessor of predecessors[index]) {
+        if (immediateDominators[predecessor] === undefined) {
+          continue;
+        }
+        newImmediateDominator = newImmediateDominator === undefined
+          ? predecessor
+          : intersect(predecessor, newImmediateDominator);
+      }
+      if (immediateDominators[index] !== newImmediateDominator) {
+        immediateDominators[index] = newImmediateDominator;
+        changed = true;
+      }
+    }
+  }
+
+  // Number the nodes of the dominator tree in preorder, along with the number of their
+  // descendants, so a node dominates another one if the preorder number of the latter is
+  // in the range of the descendants of the former.
+  const children: number[][] = nodes.map(() => []);
+  for (let index = 0; index < startIndex; index++) {
+    children[immediateDominators[index]!].push(index);
+  }
+  const preorderIndexes = new Array<number>(n);
+  const descendantCounts = new Array<number>(n).fill(0);
+  const stack = [startIndex];
+  let preorderIndex = 0;
+  while (stack.length !== 0) {
+    const index = stack.pop()!;
+    preorderIndexes[index] = preorderIndex++;
+    stack.push(...children[index]);
+  }
+  // The children are always visited before their parent in postorder.
+  for (let index = 0; index < startIndex; index++) {
+    const parent = immediateDominators[index]!;
+    descendantCounts[parent] += descendantCounts[index] + 1;
+  }
+
+  let frontiers: Set<number>[] | undefined;
+  const computeFrontiers = () => {
+    const result = nodes.map(() => new Set<number>());
+    predecessors.forEach((nodePredecessors, index) => {
+      // Walk up the dominator tree from every predecessor until reaching the immediate
+      // dominator of the node. The start node has no immediate dominator, so the walk
+      // goes up to the start node itself when it is the target of an edge.
+      for (const predecessor of nodePredecessors) {
+        let runner = predecessor;
+        while (index === startIndex || runner !== immediateDominators[index]) {
+          result[runner].add(index);
+          if (runner === startIndex) {
+            break;
+          }
+          runner = immediateDominators[runner]!;
+        }
+      }
+    });
+    return result;
+  };
+
+  return {
+    immediateDominator(node) {
+      const index = indexesByKey.get(options.key(node));
+      if (index === undefined || index === startIndex) {
+        return undefined;
+      }
+      return nodes[immediateDominators[index]!];
+    },
+    dominates(a, b) {
+      const aIndex = indexesByKey.get(options.key(a));
+      const bIndex = indexesByKey.get(options.key(b));
+      if (aIndex === undefined || bIndex === undefined) {
+        return false;
+      }
+      const offset = preorderIndexes[bIndex] - preorderIndexes[aIndex];
+      return offset >= 0 && offset <= descendantCounts[aIndex];
+    },
+    dominanceFrontier(node) {
+      const index = indexesByKey.get(options.key(node));
+      if (index === undefined) {
+        return [];
+      }
+      frontiers ??= computeFrontiers();
+      return Array.from(
+        frontiers[index],
+        (frontierIndex) => nodes[frontierIndex],
+      );
+    },
+  };
+}
@@ -0,0 +1,105 @@
+import {
+  assertEquals,
+  assertThrows,
+} from "https://deno.land/std@0.189.0/testing/asserts.ts";
+import { findCycle, shortestCycleThrough } from "./find_cycle.ts";
+
+Deno.test("findCycle() doc example", () => {
+  assertEquals(
+    findCycle({
+      start: 1,
+      successors: (n) => n < 10 ? [n + 1] : [n - 3],
+      key: (n) => n,
+    }),
+    [7, 8, 9, 10],
+  );
+  assertEquals(
+    findCycle({
+      start: 1,
+      successors: (n) => n < 10 ? [n + 1, n * 2] : [],
+      key: (n) => n,
+    }),
+    undefined,
+  );
+});
+
+Deno.test("findCycle() multiple roots", () => {
+  // 1 -> 2, 3 -> 4 -> 5 -> 3
+  const edges: Record<number, number[]> = {
+    1: [2],
+    2: [],
+    3: [4],
+    4: [5],
+    5: [3],
+  };
+  const options = {
+    successors: (n: number) => edges[n],
+    key: (n: number) => n,
+  };
+  assertEquals(findCycle({ ...options, start: 1 }), undefined);
+  assertEquals(findCycle({ ...options, roots: [1, 4] }), [4, 5, 3]);
+  assertEquals(findCycle({ ...options, roots: [] }), undefined);
+  assertThrows(() => findCycle(options), TypeError);
+});
+
+Deno.test("findCycle() self loop", () => {
+  assertEquals(
+    findCycle({
+      start: "a",
+      successors: (n) => n === "a" ? ["b"] : ["b"],
+      key: (n) => n,
+    }),
+    ["b"],
+  );
+});
+
+Deno.test("findCycle() deep graph", () => {
+  const cycle = findCycle({
+    start: 0,
+    successors: (n) => [(n + 1) % 100_000],
+    key: (n) => n,
+  });
+  assertEquals(cycle?.length, 100_000);
+});
+
+Deno.test("shortestCycleThrough() doc example", () => {
+  const result = shortestCycleThrough({
+    node: 3,
+    successors: (n): [number, number][] => {
+      switch (n) {
+        case 1:
+          return [[2, 1], [3, 5]];
+        case 2:
+          return [[3, 1]];
+        default:
+          return [[1, 1]];
+      }
+    },
+    key: (n) => n,
+  });
+  assertEquals(result, [[3, 1, 2], 3]);
+});
+
+Deno.test("shortestCycleThrough() no cycle", () => {
+  const options = {
+    successors: (n: number): [number, number][] =>
+      n < 10 ? [[n + 1, 1], [n + 2, 1]] : [[n, 4]],
+    key: (n: number) => n,
+  };
+  assertEquals(shortestCycleThrough({ ...options, node: 3 }), undefined);
+  assertEquals(shortestCycleThrough({ ...options, node: 10 }), [[10], 4]);
+  assertEquals(
+    shortestCycleThrough({ ...options, node: 10, maxCost: 3 }),
+    undefined,
+  );
+});
+
+Deno.test("shortestCycleThrough() girth of a grid torus", () => {
+  type Pos = [number, number];
+  const result = shortestCycleThrough<Pos>({
+    node: [0, 0],
+    successors: ([x, y]) => [[[(x + 1) % 5, y], 1], [[x, (y + 1) % 3], 1]],
+    key: ([x, y]) => x + "," + y,
+  });
+  assertEquals(result, [[[0, 0], [0, 1], [0, 2]], 3]);
+});
@@ -0,0 +1,150 @@
+import { postorder } from "./_postorder.ts";
+import { dijkstra, DijkstraOptions } from "./dijkstra.ts";
+
+export interface FindCycleOptions<Node> {
+  /**
+   * The starting node. Either this or {@link FindCycleOptions.roots} must be given.
+   */
+  start?: Node;
+  /**
+   * The nodes to start the exploration from. This can be given instead of
+   * {@link FindCycleOptions.start} to search from several nodes at once, in which case
+   * {@link FindCycleOptions.start} is ignored.
+   */
+  roots?: Iterable<Node>;
+  /**
+   * Returns a list of successors for a given node.
+   */
+  successors: (node: Node) => Iterable<Node>;
+  /**
+   * A function that returns a unique key for a node. Equal nodes must return keys
+   * that are equal.
+   * If the nodes are primitive values, are represented by persistent unique objects,
+   * or are never encountered more than once, then the identity function (`x => x`)
+   * can be used here.
+   * Otherwise, a custom function that converts the node to a string is
+   * recommended. (`JSON.stringify` can be used for this.)
+   */
+  key: (node: Node) => unknown;
+}
+
+/**
+ * Find a cycle reachable from {@link FindCycleOptions.start} (or from any of
+ * {@link FindCycleOptions.roots}) using a [depth-first
+ * search](https://en.wikipedia.org/wiki/Depth-first_search).
+ *
+ * The search stops at the first cycle found, which is not necessarily the shortest one; see
+ * {@link shortestCycleThrough} for that. Multiple equivalent nodes (determined by the
+ * {@link FindCycleOptions.key()} function) are only explored once. The graph is explored
+ * with an explicit stack instead of recursion, so very deep graphs do not overflow the call
+ * stack.
+ *
+ * @returns A cycle, as a list of nodes where each node is followed by its successor in the
+ * cycle, and the last node leads back to the first one, or `undefined` if the reachable part
+ * of the graph is acyclic.
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals } from "https://deno.land/std@0.189.0/testing/asserts.ts";
+ * import { findCycle } from "https://deno.land/x/lazy_pathfinding/directed/find_cycle.ts";
+ *
+ * assertEquals(
+ *   findCycle({
+ *     start: 1,
+ *     successors: (n) => n < 10 ? [n + 1] : [n - 3],
+ *     key: (n) => n,
+ *   }),
+ *   [7, 8, 9, 10],
+ * );
+ * assertEquals(
+ *   findCycle({
+ *     start: 1,
+ *     successors: (n) => n < 10 ? [n + 1, n * 2] : [],
+ *     key: (n) => n,
+ *   }),
+ *   undefined,
+ * );
+ * ```
+ */
+export function findCycle<Node>(
+  options: FindCycleOptions<Node>,
+): Node[] | undefined {
+  let roots = options.roots;
+  if (roots === undefined) {
+    if (options.start === undefined) {
+      throw new TypeError("Either the start or roots option must be given");
+    }
+    roots = [options.start];
+  }
+  const [, cycle] = postorder({
+    roots,
+    successors: options.successors,
+    key: options.key,
+  });
+  return cycle;
+}
+
+export interface ShortestCycleThroughOptions<Node, Cost = number> extends
+  Omit<
+    DijkstraOptions<Node, Cost>,
+    "start" | "starts" | "startNodes" | "success"
+  > {
+  /**
+   * The node which must be part of the cycle.
+   */
+  node: Node;
+}
+
+/**
+ * Compute a shortest cycle going through {@link ShortestCycleThroughOptions.node} using the
+ * [Dijkstra search algorithm](https://en.wikipedia.org/wiki/Dijkstra's_algorithm), which
+ * looks for a shortest path from the successors of the node back to the node itself.
+ *
+ * Costs must not be negative. If all the costs are equal, this finds a cycle with the fewest
+ * nodes. Multiple equivalent nodes (determined by the {@link DijkstraOptions.key()} function)
+ * will never be included twice in the cycle.
+ *
+ * @returns A shortest cycle as a list of nodes starting with
+ * {@link ShortestCycleThroughOptions.node}, where each node is followed by its successor in the
+ * cycle and the last node leads back to the first one, along with its total cost, or
+ * `undefined` if the node is not part of any cycle.
+ *
+ * # Example
+ *
+ * ```ts
+ * // 1 --(1)--> 2 --(1)--> 3 --(1)--> 1
+ * //   --(5)-------------->
+ * const result = shortestCycleThrough({
+ *   node: 3,
+ *   successors: (n): [number, number][] => {
+ *     switch (n) {
+ *       case 1:
+ *         return [[2, 1], [3, 5]];
+ *       case 2:
+ *         return [[3, 1]];
+ *       default:
+ *         return [[1, 1]];
+ *     }
+ *   },
+ *   key: (n) => n,
+ * });
+ * assertEquals(result, [[3, 1, 2], 3]);
+ * ```
+ */
+export function shortestCycleThrough<Node, Cost = number>(
+  options: ShortestCycleThroughOptions<Node, Cost>,
+): [Node[], Cost] | undefined {
+  const nodeKey = options.key(options.node);
+  const result = dijkstra({
+    ...options,
+    starts: options.successors(options.node),
+    success: (node) => options.key(node) === nodeKey,
+  });
+  if (!result) {
+    return undefined;
+  }
+  const [path, cost] = result;
+  // The path goes from a successor of the node to the node itself.
+  return [[options.node, ...path.slice(0, -1)], cost];
+}
@@ -0,0 +1,135 @@
+import {
+  assertEquals,
+  assertThrows,
+} from "https://deno.land/std@0.189.0/testing/asserts.ts";
+import { foldPaths } from "./fold_paths.ts";
+import { CycleError } from "./topological_sort.ts";
+
+const transitions: Record<string, [string, number][]> = {
+  idle: [["loading", 0.9], ["error", 0.1]],
+  loading: [["ready", 0.8], ["error", 0.2]],
+  error: [["ready", 0.5]],
+  ready: [],
+};
+const options = {
+  start: "idle",
+  successors: (state: string) => transitions[state],
+  success: (state: string) => state === "ready",
+};
+
+Deno.test("foldPaths() doc example", () => {
+  const mostLikely = foldPaths({
+    ...options,
+    semiring: { zero: 0, one: 1, plus: Math.max, times: (a, b) => a * b },
+  });
+  assertEquals(mostLikely, 0.9 * 0.8);
+  const total = foldPaths({
+    ...options,
+    semiring: {
+      zero: 0,
+      one: 1,
+      plus: (a, b) => a + b,
+      times: (a, b) => a * b,
+    },
+  });
+  assertEquals(total, 0.9 * 0.8 + 0.9 * 0.2 * 0.5 + 0.1 * 0.5);
+});
+
+Deno.test("foldPaths() min and max cost", () => {
+  // 1 --(4)--> 2 --(1)--> 4
+  //   --(1)--> 3 --(2)-->
+  //            3 --(7)--> 2
+  const edges: Record<number, [number, number][]> = {
+    1: [[2, 4], [3, 1]],
+    2: [[4, 1]],
+    3: [[4, 2], [2, 7]],
+    4: [],
+  };
+  const graph = {
+    start: 1,
+    successors: (n: number) => edges[n],
+    success: (n: number) => n === 4,
+  };
+  const times = (a: number, b: number) => a + b;
+  assertEquals(
+    foldPaths({
+      ...graph,
+      semiring: { zero: Infinity, one: 0, plus: Math.min, times },
+    }),
+    3,
+  );
+  assertEquals(
+    foldPaths({
+      ...graph,
+      semiring: { zero: -Infinity, one: 0, plus: Math.max, times },
+    }),
+    9,
+  );
+  assertEquals(
+    foldPaths({
+      ...graph,
+      success: () => false,
+      semiring: { zero: Infinity, one: 0, plus: Math.min, times },
+    }),
+    Infinity,
+  );
+});
+
+Deno.test("foldPaths() number of paths of each length", () => {
+  // Polynomials as arrays of coefficients, where the coefficient at index i is the
+  // number of paths with i edges.
+  const plus = (a: number[], b: number[]) =>
+    Array.from(
+      { length: Math.max(a.length, b.length) },
+      (_, i) => (a[i] ?? 0) + (b[i] ?? 0),
+    );
+  const times = (a: number[], b: number[]) => {
+    const result = new Array<number>(Math.max(a.length + b.length - 1, 0))
+      .fill(0);
+    a.forEach((x, i) => b.forEach((y, j) => result[i + j] += x * y));
+    return result;
+  };
+  // Going up 1 or 2 steps of a staircase of 5 steps.
+  const result = foldPaths({
+    start: 0,
+    successors: (n): [number, number[]][] =>
+      [n + 1, n + 2].filter((m) => m <= 5).map((m) => [m, [0, 1]]),
+    success: (n) => n === 5,
+    semiring: { zero: [], one: [1], plus, times },
+  });
+  assertEquals(result, [0, 0, 0, 3, 4, 1]);
+});
+
+Deno.test("foldPaths() keeps the order of the weights", () => {
+  // Concatenating the labels of the edges is not commutative.
+  const result = foldPaths({
+    start: [0, 0],
+    successors: ([x, y]): [[number, number], string[]][] => [
+      ...(x < 2 ? [[[x + 1, y], ["R"]] as [[number, number], string[]]] : []),
+      ...(y < 1 ? [[[x, y + 1], ["D"]] as [[number, number], string[]]] : []),
+    ],
+    success: ([x, y]) => x === 2 && y === 1,
+    key: ([x, y]) => x + "," + y,
+    semiring: {
+      zero: [],
+      one: [""],
+      plus: (a, b) => [...a, ...b],
+      times: (a, b) => a.flatMap((x) => b.map((y) => x + y)),
+    },
+  });
+  assertEquals(result, ["RRD", "RDR", "DRR"]);
+});
+
+Deno.test("foldPaths() cycle", () => {
+  const error = assertThrows(
+    () =>
+      foldPaths({
+        start: 0,
+        successors: (n): [number, number][] => [[(n + 1) % 3, 1]],
+        success: () => false,
+        semiring: { zero: 0, one: 1, plus: (a, b) => a + b, times: Math.min },
+      }),
+    CycleError,
+  ) as CycleError<number>;
+  assertEquals(error.cycle, [0, 1, 2]);
+});
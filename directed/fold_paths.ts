@@ -0,0 +1,192 @@
+import { CycleError } from "./topological_sort.ts";
+
+/**
+ * The operations used to combine the weights of the edges along a path, and the values
+ * of several paths, by {@link foldPaths}.
+ *
+ * To get consistent results, `plus` is expected to be associative and commutative, `times`
+ * to be associative and to distribute over `plus`, `zero` to be the identity of `plus`, and
+ * `one` to be the identity of `times`.
+ */
+export interface Semiring<Value> {
+  /**
+   * The value of no path at all.
+   */
+  zero: Value;
+  /**
+   * The value of the empty path, for a start node which is already successful.
+   */
+  one: Value;
+  /**
+   * Function to combine the values of two alternative paths.
+   */
+  plus: (a: Value, b: Value) => Value;
+  /**
+   * Function to combine the value of a path with the value of the path which follows it.
+   */
+  times: (a: Value, b: Value) => Value;
+}
+
+export interface FoldPathsOptions<Node, Value> {
+  /**
+   * The starting node.
+   */
+  start: Node;
+  /**
+   * Returns a list of successors for a given node, along with the weight of the edge
+   * from the node to the successor.
+   */
+  successors: (node: Node) => Iterable<[Node, Value]>;
+  /**
+   * Checks whether the goal has been reached. It is not a node as some
+   * problems require a dynamic solution instead of a fixed node. The successors
+   * of a successful node are not explored.
+   */
+  success: (node: Node) => boolean;
+  /**
+   * A function that returns a unique key for a node. Equal nodes must return keys
+   * that are equal. The value of the paths from every node is only computed once per key.
+   * Defaults to the identity function (`x => x`), which is only suitable if the nodes
+   * are primitive values or are represented by persistent unique objects.
+   * Otherwise, a custom function that converts the node to a string is
+   * recommended. (`JSON.stringify` can be used for this.)
+   */
+  key?: (node: Node) => unknown;
+  /**
+   * The operations used to combine the weights.
+   */
+  semiring: Semiring<Value>;
+}
+
+/**
+ * Combine all the possible paths to reach a destination using [dynamic
+ * programming](https://en.wikipedia.org/wiki/Dynamic_programming) over a
+ * [semiring](https://en.wikipedia.org/wiki/Semiring).
+ *
+ * The value of a path is the product (with {@link Semiring.times()}) of the weights of its
+ * edges in order, and the result is the sum (with {@link Semiring.plus()}) of the values of
+ * every path starting from {@link FoldPathsOptions.start} up to a node for which
+ * {@link FoldPathsOptions.success()} returns `true`. For example, {@link countPaths} uses
+ * `+` as `plus` and a weight of `1` for every edge, and using `Math.min` as `plus` and `+`
+ * as `times` gives the cost of a shortest path.
+ *
+ * The value of the paths from every node (determined by the {@link FoldPathsOptions.key()}
+ * function) to a successful node is only computed once. The graph is explored with an
+ * explicit stack instead of recursion, so very deep graphs do not overflow the call stack.
+ *
+ * There must be no cycle in the explored part of the graph: a {@link CycleError} containing
+ * the cycle is thrown if one is found.
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals } from "https://deno.land/std@0.189.0/testing/asserts.ts";
+ * import { foldPaths } from "https://deno.land/x/lazy_pathfinding/directed/fold_paths.ts";
+ *
+ * // The probability of each transition of a state machine.
+ * const transitions: Record<string, [string, number][]> = {
+ *   idle: [["loading", 0.9], ["error", 0.1]],
+ *   loading: [["ready", 0.8], ["error", 0.2]],
+ *   error: [["ready", 0.5]],
+ *   ready: [],
+ * };
+ * const options = {
+ *   start: "idle",
+ *   successors: (state: string) => transitions[state],
+ *   success: (state: string) => state === "ready",
+ * };
+ * // The probability of the most likely way to get ready.
+ * const mostLikely = foldPaths({
+ *   ...options,
+ *   semiring: { zero: 0, one: 1, plus: Math.max, times: (a, b) => a * b },
+ * });
+ * assertEquals(mostLikely, 0.9 * 0.8);
+ * // The probability to get ready at all.
+ * const total = foldPaths({
+ *   ...options,
+ *   semiring: { zero: 0, one: 1, plus: (a, b) => a + b, times: (a, b) => a * b },
+ * });
+ * assertEquals(total, 0.9 * 0.8 + 0.9 * 0.2 * 0.5 + 0.1 * 0.5);
+ * ```
+ */
+export function foldPaths<Node, Value>(
+  options: FoldPathsOptions<Node, Value>,
+): Value {
+  const { semiring } = options;
+  const key = options.key ?? ((node: Node) => node);
+  const cache = new Map<unknown, Value>();
+
+  interface Frame<Node, Value> {
+    node: Node;
+    nodeKey: unknown;
+    successorIterator: Iterator<[Node, Value]>;
+    value: Value;
+    /**
+     * The weight of the edge to the successor being explored.
+     */
+    successorWeight?: Value;
+  }
+  // The nodes whose successors are being explored, with the index of each one in the
+  // call stack.
+  const callStack: Frame<Node, Value>[] = [];
+  const callStackIndexes = new Map<unknown, number>();
+  /**
+   * Returns the value of the node if it is already known, or starts computing it.
+   */
+  const visit = (node: Node, nodeKey: unknown): Value | undefined => {
+    if (cache.has(nodeKey)) {
+      return cache.get(nodeKey)!;
+    }
+    const callStackIndex = callStackIndexes.get(nodeKey);
+    if (callStackIndex !== undefined) {
+      throw new CycleError(
+        callStack.slice(callStackIndex).map((frame) => frame.node),
+      );
+    }
+    if (options.success(node)) {
+      cache.set(nodeKey, semiring.one);
+      return semiring.one;
+    }
+    callStackIndexes.set(nodeKey, callStack.length);
+    callStack.push({
+      node,
+      nodeKey,
+      successorIterator: options.successors(node)[Symbol.iterator](),
+      value: semiring.zero,
+    });
+    return undefined;
+  };
+
+  const startValue = visit(options.start, key(options.start));
+  if (startValue !== undefined) {
+    return startValue;
+  }
+  while (true) {
+    const frame = callStack[callStack.length - 1];
+    const next = frame.successorIterator.next();
+    if (!next.done) {
+      const [successor, weight] = next.value;
+      const successorValue = visit(successor, key(successor));
+      if (successorValue !== undefined) {
+        frame.value = semiring.plus(
+          frame.value,
+          semiring.times(weight, successorValue),
+        );
+      } else {
+        frame.successorWeight = weight;
+      }
+      continue;
+    }
+    callStack.pop();
+    callStackIndexes.delete(frame.nodeKey);
+    cache.set(frame.nodeKey, frame.value);
+    if (callStack.length === 0) {
+      return frame.value;
+    }
+    const parentFrame = callStack[callStack.length - 1];
+    parentFrame.value = semiring.plus(
+      parentFrame.value,
+      semiring.times(parentFrame.successorWeight!, frame.value),
+    );
+  }
+}
@@ -0,0 +1,152 @@
+import { assertEquals } from "https://deno.land/std@0.189.0/testing/asserts.ts";
+import { aStar } from "./a_star.ts";
+import { CostOptions } from "./cost_options.ts";
+import { fringe } from "./fringe.ts";
+
+Deno.test("fringe() doc example", () => {
+  type Pos = [number, number];
+
+  function distance(a: Pos, b: Pos): number {
+    return Math.abs(a[0] - b[0]) + Math.abs(a[1] - b[1]);
+  }
+
+  const goal: Pos = [4, 6];
+
+  const result = fringe<Pos>({
+    start: [1, 1],
+    successors: ([x, y]) =>
+      ([
+        [x + 1, y + 2],
+        [x + 1, y - 2],
+        [x - 1, y + 2],
+        [x - 1, y - 2],
+        [x + 2, y + 1],
+        [x + 2, y - 1],
+        [x - 2, y + 1],
+        [x - 2, y - 1],
+      ] as Pos[])
+        .map((p) => [p, 1]),
+    heuristic: (node) => distance(node, goal) / 3,
+    success: (node) => node[0] === goal[0] && node[1] === goal[1],
+    key: (node) => node[0] + "," + node[1],
+  });
+
+  assertEquals(result![1], 4);
+  assertEquals(result![0].length, 5);
+  assertEquals(result![0][4], goal);
+});
+
+Deno.test("fringe() failure with max cost", () => {
+  type Pos = [number, number];
+
+  function distance(a: Pos, b: Pos): number {
+    return Math.abs(a[0] - b[0]) + Math.abs(a[1] - b[1]);
+  }
+
+  const goal: Pos = [4, 6];
+
+  const result = fringe<Pos>({
+    start: [1, 1],
+    successors: ([x, y]) =>
+      ([
+        [x + 1, y + 2],
+        [x + 1, y - 2],
+        [x - 1, y + 2],
+        [x - 1, y - 2],
+        [x + 2, y + 1],
+        [x + 2, y - 1],
+        [x - 2, y + 1],
+        [x - 2, y - 1],
+      ] as Pos[])
+        .map((p) => [p, 1]),
+    heuristic: (node) => distance(node, goal) / 3,
+    success: (node) => node[0] === goal[0] && node[1] === goal[1],
+    key: (node) => node[0] + "," + node[1],
+    maxCost: 3,
+  });
+
+  assertEquals(result, undefined);
+});
+
+Deno.test("fringe() grid map matches aStar()", () => {
+  const MAP = [
+    "S....#....",
+    ".###.#.##.",
+    ".#...#..#.",
+    ".#.###.##.",
+    ".#........",
+    ".####.###.",
+    "......#..G",
+  ];
+  type Pos = [number, number];
+  const goal: Pos = [9, 6];
+  const options = {
+    start: [0, 0] as Pos,
+    successors: ([x, y]: Pos): [Pos, number][] =>
+      ([[x + 1, y], [x - 1, y], [x, y + 1], [x, y - 1]] as Pos[])
+        .filter(([x, y]) => MAP[y]?.[x] !== undefined && MAP[y][x] !== "#")
+        .map((p) => [p, MAP[p[1]][p[0]] === "." ? 1 : 2]),
+    heuristic: ([x, y]: Pos) => Math.abs(x - goal[0]) + Math.abs(y - goal[1]),
+    success: ([x, y]: Pos) => x === goal[0] && y === goal[1],
+    key: ([x, y]: Pos) => x + "," + y,
+  };
+  const result = fringe(options)!;
+  assertEquals(result[1], aStar(options)![1]);
+  assertEquals(result[0][0], options.start);
+  assertEquals(result[0][result[0].length - 1], goal);
+});
+
+Deno.test("fringe() unreachable", () => {
+  const result = fringe({
+    start: 1,
+    successors: (n) => n <= 4 ? [[n * 2, 1], [n * 2 + 1, 1], [1, 1]] : [],
+    heuristic: () => 0,
+    success: (n) => n === 10,
+    key: (n) => n,
+  });
+  assertEquals(result, undefined);
+});
+
+Deno.test("fringe() with custom costs", () => {
+  // Costs are [primary, secondary] pairs where any amount of the primary cost
+  // is worth more than any amount of the secondary cost.
+  type Cost = [number, number];
+  const costOptions: CostOptions<Cost> = {
+    zero: [0, 0],
+    add: (a, b) => [a[0] + b[0], a[1] + b[1]],
+    compareFn: (a, b) => a[0] - b[0] || a[1] - b[1],
+  };
+  // 1 --> 2 --> 4
+  //   --> 3 --> 4
+  const result = fringe<number, Cost>({
+    start: 1,
+    successors: (node): [number, Cost][] => {
+      switch (node) {
+        case 1:
+          return [[2, [0, 1]], [3, [0, 5]]];
+        case 2:
+          return [[4, [1, 0]]];
+        case 3:
+          return [[4, [0, 1]]];
+        default:
+          return [];
+      }
+    },
+    heuristic: () => [0, 0],
+    success: (node) => node === 4,
+    key: (node) => node,
+    costOptions,
+  });
+  assertEquals(result, [[1, 3, 4], [0, 6]]);
+});
+
+Deno.test("fringe() with multiple starts", () => {
+  const result = fringe({
+    starts: [[0, 0], [10, 3]],
+    successors: (n): [number, number][] => [[n - 1, 1], [n + 1, 1]],
+    heuristic: (n) => Math.abs(n - 7),
+    success: (n) => n === 7,
+    key: (n) => n,
+  });
+  assertEquals(result, [[10, 9, 8, 7], 6]);
+});
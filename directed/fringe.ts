@@ -0,0 +1,205 @@
+import { AStarOptions } from "./a_star.ts";
+import { reversePath } from "./_reverse_path.ts";
+import { getStarts } from "./_starts.ts";
+import { CostOptions, numberCostOptions } from "./cost_options.ts";
+
+/**
+ * Compute a shortest path using the [Fringe search
+ * algorithm](https://en.wikipedia.org/wiki/Fringe_search).
+ *
+ * This takes the same options and returns the same result as {@link aStar}. Instead of
+ * keeping the nodes to explore in a priority queue, nodes are kept in plain lists and
+ * revisited with an increasing estimated cost threshold, which avoids the cost of heap
+ * operations and is often faster on grid maps.
+ *
+ * Multiple equivalent nodes (determined by the {@link AStarOptions.key()} function) will never
+ * be included twice in the path.
+ *
+ * The shortest path starting from {@link AStarOptions.start} (or from any of {@link AStarOptions.starts}) up to a node
+ * for which {@link AStarOptions.success()} returns `true` is computed and returned along with its total cost, or `undefined`
+ * is returned if no successful path was found. The returned path comprises both the start and end node.
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals } from "https://deno.land/std@0.189.0/testing/asserts.ts";
+ * import { fringe } from "https://deno.land/x/lazy_pathfinding/directed/fringe.ts";
+ *
+ * type Pos = [number, number];
+ *
+ * function distance(a: Pos, b: Pos): number {
+ *   return Math.abs(a[0] - b[0]) + Math.abs(a[1] - b[1]);
+ * }
+ *
+ * const goal: Pos = [4, 6];
+ *
+ * const result = fringe<Pos>({
+ *   start: [1, 1],
+ *   successors: ([x, y]) =>
+ *     ([
+ *       [x + 1, y + 2],
+ *       [x + 1, y - 2],
+ *       [x - 1, y + 2],
+ *       [x - 1, y - 2],
+ *       [x + 2, y + 1],
+ *       [x + 2, y - 1],
+ *       [x - 2, y + 1],
+ *       [x - 2, y - 1],
+ *     ] as Pos[])
+ *       .map((p) => [p, 1]),
+ *   heuristic: (node) => distance(node, goal) / 3,
+ *   success: (node) => node[0] === goal[0] && node[1] === goal[1],
+ *   key: (node) => node[0] + "," + node[1],
+ * });
+ *
+ * assertEquals(result![1], 4);
+ * ```
+ */
+export function fringe<Node, Cost = number>(
+  options: AStarOptions<Node, Cost>,
+): [Node[], Cost] | undefined {
+  const costOptions = options.costOptions ??
+    numberCostOptions as CostOptions<unknown> as CostOptions<Cost>;
+
+  interface EncounteredNodeEntry<Node, Cost> {
+    node: Node;
+    /**
+     * Either the key of the parent or `undefined`.
+     */
+    parentKey: unknown;
+    cost: Cost;
+    heuristicCost: Cost;
+    /**
+     * Identifies the most recent insertion of this node into the fringe. Older
+     * insertions are outdated and get skipped.
+     */
+    fringeToken: number;
+  }
+  interface FringeItem {
+    nodeKey: unknown;
+    fringeToken: number;
+  }
+
+  let nextFringeToken = 0;
+  const encounteredNodes = new Map<unknown, EncounteredNodeEntry<Node, Cost>>();
+  // `now` is used as a stack: the next node to examine is at the end.
+  let now: FringeItem[] = [];
+  let later: FringeItem[] = [];
+  let fLimit: Cost | undefined;
+
+  for (const [start, cost] of getStarts(options, costOptions)) {
+    if (
+      options.maxCost !== undefined &&
+      costOptions.compareFn(cost, options.maxCost) > 0
+    ) {
+      continue;
+    }
+    const startKey = options.key(start);
+    const encounteredNodeEntry = encounteredNodes.get(startKey);
+    if (
+      encounteredNodeEntry &&
+      costOptions.compareFn(encounteredNodeEntry.cost, cost) <= 0
+    ) {
+      continue;
+    }
+    const fringeToken = nextFringeToken++;
+    const heuristicCost = encounteredNodeEntry?.heuristicCost ??
+      options.heuristic(start);
+    encounteredNodes.set(startKey, {
+      node: start,
+      parentKey: undefined,
+      cost,
+      heuristicCost,
+      fringeToken,
+    });
+    now.push({ nodeKey: startKey, fringeToken });
+    const estimatedCost = costOptions.add(cost, heuristicCost);
+    if (
+      fLimit === undefined || costOptions.compareFn(estimatedCost, fLimit) < 0
+    ) {
+      fLimit = estimatedCost;
+    }
+  }
+  // Examine the start nodes in the order they were given.
+  now.reverse();
+
+  while (now.length !== 0) {
+    let fMin: Cost | undefined;
+    while (true) {
+      const item = now.pop();
+      if (!item) {
+        break;
+      }
+      const entry = encounteredNodes.get(item.nodeKey)!;
+      // Nodes are inserted into the fringe again when a better way to access
+      // them is found. Skip the outdated insertions.
+      if (entry.fringeToken !== item.fringeToken) {
+        continue;
+      }
+      const { node, cost } = entry;
+      const estimatedCost = costOptions.add(cost, entry.heuristicCost);
+      if (costOptions.compareFn(estimatedCost, fLimit!) > 0) {
+        if (
+          fMin === undefined || costOptions.compareFn(estimatedCost, fMin) < 0
+        ) {
+          fMin = estimatedCost;
+        }
+        later.push(item);
+        continue;
+      }
+      if (options.success(node)) {
+        const path = reversePath(
+          encounteredNodes,
+          (e) => e.parentKey,
+          item.nodeKey,
+        )
+          .map((nodeKey) => encounteredNodes.get(nodeKey)!.node);
+        return [path, cost];
+      }
+      const successors = options.successors(node);
+      for (const [successor, moveCost] of successors) {
+        const newCost = costOptions.add(cost, moveCost);
+
+        if (
+          options.maxCost !== undefined &&
+          costOptions.compareFn(newCost, options.maxCost) > 0
+        ) {
+          continue;
+        }
+
+        const successorKey = options.key(successor);
+        const encounteredNodeEntry = encounteredNodes.get(successorKey);
+
+        const fringeToken = nextFringeToken++;
+        if (!encounteredNodeEntry) {
+          encounteredNodes.set(successorKey, {
+            node: successor,
+            parentKey: item.nodeKey,
+            cost: newCost,
+            heuristicCost: options.heuristic(successor),
+            fringeToken,
+          });
+        } else if (
+          costOptions.compareFn(encounteredNodeEntry.cost, newCost) > 0
+        ) {
+          // if encounteredNodeEntry.cost > newCost, then record this path as the
+          // best path to get to get to this node.
+          encounteredNodeEntry.parentKey = item.nodeKey;
+          encounteredNodeEntry.cost = newCost;
+          encounteredNodeEntry.fringeToken = fringeToken;
+        } else {
+          continue;
+        }
+        now.push({ nodeKey: successorKey, fringeToken });
+      }
+    }
+    if (fMin === undefined) {
+      break;
+    }
+    // Examine the postponed nodes in the order they were postponed.
+    now = later.reverse();
+    later = [];
+    fLimit = fMin;
+  }
+  return undefined;
+}
@@ -0,0 +1,53 @@
+import { assertEquals } from "https://deno.land/std@0.189.0/testing/asserts.ts";
+import { greedyBestFirst } from "./greedy_best_first.ts";
+
+Deno.test("greedyBestFirst() doc example", () => {
+  // Going straight to 10 is expensive, but the heuristic only cares about the
+  // distance left.
+  const result = greedyBestFirst({
+    start: 0,
+    successors: (n): [number, number][] => [[n + 1, 5], [n + 2, 20]],
+    heuristic: (n) => Math.max(10 - n, 0),
+    success: (n) => n === 10,
+    key: (n) => n,
+  });
+
+  assertEquals(result, [[0, 2, 4, 6, 8, 10], 100]);
+});
+
+Deno.test("greedyBestFirst() around a dead end", () => {
+  type Pos = [number, number];
+  const grid = [
+    ".......",
+    ".####..",
+    "....#..",
+    ".####..",
+    ".......",
+  ];
+  const goal: Pos = [6, 2];
+  const [path, cost] = greedyBestFirst<Pos>({
+    start: [0, 2],
+    successors: ([x, y]) =>
+      ([[x + 1, y], [x - 1, y], [x, y + 1], [x, y - 1]] as Pos[])
+        .filter(([x, y]) => grid[y]?.[x] === ".")
+        .map((p) => [p, 1]),
+    heuristic: ([x, y]) => Math.abs(goal[0] - x) + Math.abs(goal[1] - y),
+    success: ([x, y]) => x === goal[0] && y === goal[1],
+    key: ([x, y]) => x + "," + y,
+  })!;
+  assertEquals(path[0], [0, 2]);
+  assertEquals(path[path.length - 1], goal);
+  assertEquals(cost, path.length - 1);
+});
+
+Deno.test("greedyBestFirst() failure with max cost", () => {
+  const result = greedyBestFirst({
+    start: 0,
+    successors: (n): [number, number][] => [[n + 1, 1]],
+    heuristic: (n) => Math.max(10 - n, 0),
+    success: (n) => n === 10,
+    key: (n) => n,
+    maxCost: 9,
+  });
+  assertEquals(result, undefined);
+});
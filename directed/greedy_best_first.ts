@@ -0,0 +1,149 @@
+import { BinaryHeap } from "https://deno.land/std@0.189.0/collections/binary_heap.ts";
+import { AStarOptions } from "./a_star.ts";
+import { reversePath } from "./_reverse_path.ts";
+import { getStarts } from "./_starts.ts";
+import { CostOptions, numberCostOptions } from "./cost_options.ts";
+
+/**
+ * Compute a path using the [greedy best-first search
+ * algorithm](https://en.wikipedia.org/wiki/Best-first_search#Greedy_BFS).
+ *
+ * This takes the same options as {@link aStar}, but the nodes are explored in the order of their
+ * {@link AStarOptions.heuristic()} only, regardless of the cost to reach them, and every node is
+ * only reached once through the first path found to it. This usually finds a path much faster
+ * than {@link aStar}, but the path may be far from the shortest one.
+ *
+ * Multiple equivalent nodes (determined by the {@link AStarOptions.key()} function) will never
+ * be included twice in the path.
+ *
+ * A path starting from {@link AStarOptions.start} (or from any of {@link AStarOptions.starts}) up to a node
+ * for which {@link AStarOptions.success()} returns `true` is computed and returned along with its total cost, or `undefined`
+ * is returned if no successful path was found. The returned path comprises both the start and end node.
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals } from "https://deno.land/std@0.189.0/testing/asserts.ts";
+ * import { greedyBestFirst } from "https://deno.land/x/lazy_pathfinding/directed/greedy_best_first.ts";
+ *
+ * // Going straight to 10 is expensive, but the heuristic only cares about the
+ * // distance left.
+ * const result = greedyBestFirst({
+ *   start: 0,
+ *   successors: (n): [number, number][] => [[n + 1, 5], [n + 2, 20]],
+ *   heuristic: (n) => Math.max(10 - n, 0),
+ *   success: (n) => n === 10,
+ *   key: (n) => n,
+ * });
+ *
+ * assertEquals(result, [[0, 2, 4, 6, 8, 10], 100]);
+ * ```
+ */
+export function greedyBestFirst<Node, Cost = number>(
+  options: AStarOptions<Node, Cost>,
+): [Node[], Cost] | undefined {
+  const costOptions = options.costOptions ??
+    numberCostOptions as CostOptions<unknown> as CostOptions<Cost>;
+
+  const toSee = new BinaryHeap<SmallestHeuristicHolder<Cost>>((a, b) =>
+    costOptions.compareFn(a.heuristicCost, b.heuristicCost) ||
+    costOptions.compareFn(a.cost, b.cost)
+  );
+
+  interface EncounteredNodeEntry<Node, Cost> {
+    node: Node;
+    /**
+     * Either the key of the parent or `undefined`.
+     */
+    parentKey: unknown;
+    cost: Cost;
+  }
+  const encounteredNodes = new Map<unknown, EncounteredNodeEntry<Node, Cost>>();
+  for (const [start, cost] of getStarts(options, costOptions)) {
+    if (
+      options.maxCost !== undefined &&
+      costOptions.compareFn(cost, options.maxCost) > 0
+    ) {
+      continue;
+    }
+    const startKey = options.key(start);
+    const encounteredNodeEntry = encounteredNodes.get(startKey);
+    if (
+      !encounteredNodeEntry ||
+      costOptions.compareFn(encounteredNodeEntry.cost, cost) > 0
+    ) {
+      encounteredNodes.set(startKey, {
+        node: start,
+        parentKey: undefined,
+        cost,
+      });
+      toSee.push({
+        heuristicCost: options.heuristic(start),
+        cost,
+        nodeKey: startKey,
+      });
+    }
+  }
+  while (true) {
+    const smallestHeuristicHolder = toSee.pop();
+    if (!smallestHeuristicHolder) {
+      break;
+    }
+    const { node, cost } = encounteredNodes.get(
+      smallestHeuristicHolder.nodeKey,
+    )!;
+    // A start node may have been inserted several times into the binary heap with
+    // different costs. Discard the outdated insertions.
+    if (costOptions.compareFn(smallestHeuristicHolder.cost, cost) > 0) {
+      continue;
+    }
+    if (options.success(node)) {
+      const path = reversePath(
+        encounteredNodes,
+        (e) => e.parentKey,
+        smallestHeuristicHolder.nodeKey,
+      )
+        .map((nodeKey) => encounteredNodes.get(nodeKey)!.node);
+      return [path, cost];
+    }
+    const successors = options.successors(node);
+    for (const [successor, moveCost] of successors) {
+      const newCost = costOptions.add(cost, moveCost);
+
+      if (
+        options.maxCost !== undefined &&
+        costOptions.compareFn(newCost, options.maxCost) > 0
+      ) {
+        continue;
+      }
+
+      const successorKey = options.key(successor);
+      if (encounteredNodes.has(successorKey)) {
+        continue;
+      }
+      encounteredNodes.set(successorKey, {
+        node: successor,
+        parentKey: smallestHeuristicHolder.nodeKey,
+        cost: newCost,
+      });
+      toSee.push({
+        heuristicCost: options.heuristic(successor),
+        cost: newCost,
+        nodeKey: successorKey,
+      });
+    }
+  }
+  return undefined;
+}
+
+interface SmallestHeuristicHolder<Cost> {
+  /**
+   * The estimated cost from this node to the goal.
+   */
+  heuristicCost: Cost;
+  /**
+   * The cost to reach this node.
+   */
+  cost: Cost;
+  nodeKey: unknown;
+}
@@ -0,0 +1,174 @@
+import { assertEquals } from "https://deno.land/std@0.189.0/testing/asserts.ts";
+import { aStar } from "./a_star.ts";
+import { CostOptions } from "./cost_options.ts";
+import { idaStar } from "./ida_star.ts";
+
+Deno.test("idaStar() doc example", () => {
+  type Pos = [number, number];
+
+  function distance(a: Pos, b: Pos): number {
+    return Math.abs(a[0] - b[0]) + Math.abs(a[1] - b[1]);
+  }
+
+  const goal: Pos = [4, 6];
+
+  const result = idaStar<Pos>({
+    start: [1, 1],
+    successors: ([x, y]) =>
+      ([
+        [x + 1, y + 2],
+        [x + 1, y - 2],
+        [x - 1, y + 2],
+        [x - 1, y - 2],
+        [x + 2, y + 1],
+        [x + 2, y - 1],
+        [x - 2, y + 1],
+        [x - 2, y - 1],
+      ] as Pos[])
+        .map((p) => [p, 1]),
+    heuristic: (node) => distance(node, goal) / 3,
+    success: (node) => node[0] === goal[0] && node[1] === goal[1],
+    key: (node) => node[0] + "," + node[1],
+  });
+
+  assertEquals(result![1], 4);
+  assertEquals(result![0].length, 5);
+  assertEquals(result![0][4], goal);
+});
+
+Deno.test("idaStar() failure with max cost", () => {
+  type Pos = [number, number];
+
+  function distance(a: Pos, b: Pos): number {
+    return Math.abs(a[0] - b[0]) + Math.abs(a[1] - b[1]);
+  }
+
+  const goal: Pos = [4, 6];
+
+  const result = idaStar<Pos>({
+    start: [1, 1],
+    successors: ([x, y]) =>
+      ([
+        [x + 1, y + 2],
+        [x + 1, y - 2],
+        [x - 1, y + 2],
+        [x - 1, y - 2],
+        [x + 2, y + 1],
+        [x + 2, y - 1],
+        [x - 2, y + 1],
+        [x - 2, y - 1],
+      ] as Pos[])
+        .map((p) => [p, 1]),
+    heuristic: (node) => distance(node, goal) / 3,
+    success: (node) => node[0] === goal[0] && node[1] === goal[1],
+    key: (node) => node[0] + "," + node[1],
+    maxCost: 3,
+  });
+
+  assertEquals(result, undefined);
+});
+
+Deno.test("idaStar() unreachable in a finite graph", () => {
+  const result = idaStar({
+    start: 1,
+    successors: (n) => n <= 4 ? [[n * 2, 1], [n * 2 + 1, 1], [1, 1]] : [],
+    heuristic: () => 0,
+    success: (n) => n === 10,
+    key: (n) => n,
+  });
+  assertEquals(result, undefined);
+});
+
+Deno.test("idaStar() sliding puzzle", () => {
+  // 3x3 sliding puzzle with 0 as the blank.
+  const goal = "123456780";
+
+  function manhattan(state: string): number {
+    let total = 0;
+    for (let i = 0; i < 9; i++) {
+      const tile = Number(state[i]);
+      if (tile !== 0) {
+        const target = tile - 1;
+        total += Math.abs(Math.floor(i / 3) - Math.floor(target / 3)) +
+          Math.abs((i % 3) - (target % 3));
+      }
+    }
+    return total;
+  }
+
+  function successors(state: string): [string, number][] {
+    const blank = state.indexOf("0");
+    const x = blank % 3;
+    const y = Math.floor(blank / 3);
+    const result: [string, number][] = [];
+    for (const [dx, dy] of [[1, 0], [-1, 0], [0, 1], [0, -1]]) {
+      const nx = x + dx;
+      const ny = y + dy;
+      if (nx < 0 || ny < 0 || nx >= 3 || ny >= 3) {
+        continue;
+      }
+      const tiles = state.split("");
+      tiles[blank] = tiles[ny * 3 + nx];
+      tiles[ny * 3 + nx] = "0";
+      result.push([tiles.join(""), 1]);
+    }
+    return result;
+  }
+
+  const options = {
+    start: "867254301",
+    successors,
+    heuristic: manhattan,
+    success: (state: string) => state === goal,
+    key: (state: string) => state,
+  };
+  const result = idaStar(options)!;
+  assertEquals(result[1], aStar(options)![1]);
+  assertEquals(result[0].length, result[1] + 1);
+  assertEquals(result[0][0], options.start);
+  assertEquals(result[0][result[0].length - 1], goal);
+});
+
+Deno.test("idaStar() with custom costs", () => {
+  // Costs are [primary, secondary] pairs where any amount of the primary cost
+  // is worth more than any amount of the secondary cost.
+  type Cost = [number, number];
+  const costOptions: CostOptions<Cost> = {
+    zero: [0, 0],
+    add: (a, b) => [a[0] + b[0], a[1] + b[1]],
+    compareFn: (a, b) => a[0] - b[0] || a[1] - b[1],
+  };
+  // 1 --> 2 --> 4
+  //   --> 3 --> 4
+  const result = idaStar<number, Cost>({
+    start: 1,
+    successors: (node): [number, Cost][] => {
+      switch (node) {
+        case 1:
+          return [[2, [0, 1]], [3, [0, 5]]];
+        case 2:
+          return [[4, [1, 0]]];
+        case 3:
+          return [[4, [0, 1]]];
+        default:
+          return [];
+      }
+    },
+    heuristic: () => [0, 0],
+    success: (node) => node === 4,
+    key: (node) => node,
+    costOptions,
+  });
+  assertEquals(result, [[1, 3, 4], [0, 6]]);
+});
+
+Deno.test("idaStar() with multiple starts", () => {
+  const result = idaStar({
+    starts: [[0, 0], [10, 3]],
+    successors: (n): [number, number][] => [[n - 1, 1], [n + 1, 1]],
+    heuristic: (n) => Math.abs(n - 7),
+    success: (n) => n === 7,
+    key: (n) => n,
+  });
+  assertEquals(result, [[10, 9, 8, 7], 6]);
+});
@@ -0,0 +1,245 @@
+import { AStarOptions } from "./a_star.ts";
+import { getStarts } from "./_starts.ts";
+import { CostOptions, numberCostOptions } from "./cost_options.ts";
+
+/**
+ * Compute a shortest path using the [IDA* search
+ * algorithm](https://en.wikipedia.org/wiki/Iterative_deepening_A*).
+ *
+ * This takes the same options and returns the same result as {@link aStar}, but it does not
+ * remember every node it has encountered: only the path currently being explored is kept
+ * in memory. This makes it suitable for problems with huge state spaces such as sliding
+ * puzzles, at the cost of visiting nodes again once per cost threshold and once for each path
+ * leading to them.
+ *
+ * Multiple equivalent nodes (determined by the {@link AStarOptions.key()} function) will never
+ * be included twice in the path.
+ *
+ * The shortest path starting from {@link AStarOptions.start} (or from any of {@link AStarOptions.starts}) up to a node
+ * for which {@link AStarOptions.success()} returns `true` is computed and returned along with its total cost, or `undefined`
+ * is returned if no successful path was found. The returned path comprises both the start and end node.
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals } from "https://deno.land/std@0.189.0/testing/asserts.ts";
+ * import { idaStar } from "https://deno.land/x/lazy_pathfinding/directed/ida_star.ts";
+ *
+ * type Pos = [number, number];
+ *
+ * function distance(a: Pos, b: Pos): number {
+ *   return Math.abs(a[0] - b[0]) + Math.abs(a[1] - b[1]);
+ * }
+ *
+ * const goal: Pos = [4, 6];
+ *
+ * const result = idaStar<Pos>({
+ *   start: [1, 1],
+ *   successors: ([x, y]) =>
+ *     ([
+ *       [x + 1, y + 2],
+ *       [x + 1, y - 2],
+ *       [x - 1, y + 2],
+ *       [x - 1, y - 2],
+ *       [x + 2, y + 1],
+ *       [x + 2, y - 1],
+ *       [x - 2, y + 1],
+ *       [x - 2, y - 1],
+ *     ] as Pos[])
+ *       .map((p) => [p, 1]),
+ *   heuristic: (node) => distance(node, goal) / 3,
+ *   success: (node) => node[0] === goal[0] && node[1] === goal[1],
+ *   key: (node) => node[0] + "," + node[1],
+ * });
+ *
+ * assertEquals(result![1], 4);
+ * ```
+ */
+export function idaStar<Node, Cost = number>(
+  options: AStarOptions<Node, Cost>,
+): [Node[], Cost] | undefined {
+  const costOptions = options.costOptions ??
+    numberCostOptions as CostOptions<unknown> as CostOptions<Cost>;
+
+  const startsByKey = new Map<unknown, SuccessorEntry<Node, Cost>>();
+  for (const [start, cost] of getStarts(options, costOptions)) {
+    if (
+      options.maxCost !== undefined &&
+      costOptions.compareFn(cost, options.maxCost) > 0
+    ) {
+      continue;
+    }
+    const startKey = options.key(start);
+    const startEntry = startsByKey.get(startKey);
+    if (startEntry && costOptions.compareFn(startEntry.cost, cost) <= 0) {
+      continue;
+    }
+    startsByKey.set(startKey, {
+      node: start,
+      nodeKey: startKey,
+      cost,
+      estimatedCost: costOptions.add(cost, options.heuristic(start)),
+    });
+  }
+  const starts = Array.from(startsByKey.values()).sort((a, b) =>
+    costOptions.compareFn(a.estimatedCost, b.estimatedCost)
+  );
+  if (starts.length === 0) {
+    return undefined;
+  }
+
+  let bound = starts[0].estimatedCost;
+  while (true) {
+    const result = boundedSearch(options, costOptions, starts, bound);
+    if (result.found) {
+      return [result.path, result.cost];
+    }
+    if (result.nextBound === undefined) {
+      return undefined;
+    }
+    bound = result.nextBound;
+  }
+}
+
+type BoundedSearchResult<Node, Cost> = {
+  found: true;
+  path: Node[];
+  cost: Cost;
+} | {
+  found: false;
+  /**
+   * The smallest estimated cost that exceeded the bound, or `undefined` if no
+   * node was cut off by the bound.
+   */
+  nextBound: Cost | undefined;
+};
+
+interface SuccessorEntry<Node, Cost> {
+  node: Node;
+  nodeKey: unknown;
+  cost: Cost;
+  /**
+   * The estimated cost through this node to the goal.
+   */
+  estimatedCost: Cost;
+}
+
+interface PathEntry<Node, Cost> {
+  node: Node;
+  nodeKey: unknown;
+  cost: Cost;
+  /**
+   * The successors of this node sorted by estimated cost.
+   */
+  successors: SuccessorEntry<Node, Cost>[];
+  /**
+   * The index of the next successor to explore.
+   */
+  nextSuccessorIndex: number;
+}
+
+/**
+ * Explore every path from the given start nodes (sorted by estimated cost) whose
+ * estimated cost does not exceed the given bound, depth-first.
+ */
+function boundedSearch<Node, Cost>(
+  options: AStarOptions<Node, Cost>,
+  costOptions: CostOptions<Cost>,
+  starts: readonly SuccessorEntry<Node, Cost>[],
+  bound: Cost,
+): BoundedSearchResult<Node, Cost> {
+  const path: PathEntry<Node, Cost>[] = [];
+  const pathKeys = new Set<unknown>();
+  let nextBound: Cost | undefined;
+
+  /**
+   * Adds the node to the current path and computes its successors.
+   * @returns `true` if the node is a successful node.
+   */
+  function enter(node: Node, nodeKey: unknown, cost: Cost): boolean {
+    if (options.success(node)) {
+      path.push({ node, nodeKey, cost, successors: [], nextSuccessorIndex: 0 });
+      return true;
+    }
+    pathKeys.add(nodeKey);
+    const successors: SuccessorEntry<Node, Cost>[] = [];
+    for (const [successor, moveCost] of options.successors(node)) {
+      const newCost = costOptions.add(cost, moveCost);
+
+      if (
+        options.maxCost !== undefined &&
+        costOptions.compareFn(newCost, options.maxCost) > 0
+      ) {
+        continue;
+      }
+
+      const successorKey = options.key(successor);
+      if (pathKeys.has(successorKey)) {
+        continue;
+      }
+      successors.push({
+        node: successor,
+        nodeKey: successorKey,
+        cost: newCost,
+        estimatedCost: costOptions.add(newCost, options.heuristic(successor)),
+      });
+    }
+    successors.sort((a, b) =>
+      costOptions.compareFn(a.estimatedCost, b.estimatedCost)
+    );
+    path.push({ node, nodeKey, cost, successors, nextSuccessorIndex: 0 });
+    return false;
+  }
+
+  function found(): BoundedSearchResult<Node, Cost> {
+    return {
+      found: true,
+      path: path.map((entry) => entry.node),
+      cost: path[path.length - 1].cost,
+    };
+  }
+
+  /**
+   * @returns `false` if the estimated cost exceeds the bound.
+   */
+  function withinBound(entry: SuccessorEntry<Node, Cost>): boolean {
+    if (costOptions.compareFn(entry.estimatedCost, bound) > 0) {
+      if (
+        nextBound === undefined ||
+        costOptions.compareFn(entry.estimatedCost, nextBound) < 0
+      ) {
+        nextBound = entry.estimatedCost;
+      }
+      return false;
+    }
+    return true;
+  }
+
+  for (const start of starts) {
+    if (!withinBound(start)) {
+      // The remaining start nodes are sorted and can't be any closer to the bound.
+      break;
+    }
+    if (enter(start.node, start.nodeKey, start.cost)) {
+      return found();
+    }
+    while (path.length !== 0) {
+      const current = path[path.length - 1];
+      if (current.nextSuccessorIndex >= current.successors.length) {
+        path.pop();
+        pathKeys.delete(current.nodeKey);
+        continue;
+      }
+      const successor = current.successors[current.nextSuccessorIndex++];
+      if (!withinBound(successor)) {
+        // The remaining successors are sorted and can't be any closer to the bound.
+        current.nextSuccessorIndex = current.successors.length;
+        continue;
+      }
+      if (enter(successor.node, successor.nodeKey, successor.cost)) {
+        return found();
+      }
+    }
+  }
+  return { found: false, nextBound };
+}
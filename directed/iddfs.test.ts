@@ -0,0 +1,75 @@
+import { assertEquals } from "https://deno.land/std@0.189.0/testing/asserts.ts";
+import { iddfs } from "./iddfs.ts";
+
+Deno.test("iddfs() doc example", () => {
+  type Pos = [number, number];
+
+  const goal: Pos = [4, 6];
+
+  const result = iddfs<Pos>({
+    start: [1, 1],
+    successors: ([x, y]) => [
+      [x + 1, y + 2],
+      [x + 1, y - 2],
+      [x - 1, y + 2],
+      [x - 1, y - 2],
+      [x + 2, y + 1],
+      [x + 2, y - 1],
+      [x - 2, y + 1],
+      [x - 2, y - 1],
+    ],
+    success: (node) => node[0] === goal[0] && node[1] === goal[1],
+    key: (node) => node[0] + "," + node[1],
+  });
+
+  assertEquals(result, [
+    [1, 1],
+    [2, 3],
+    [3, 5],
+    [2, 7],
+    [4, 6],
+  ]);
+});
+
+Deno.test("iddfs() start is success", () => {
+  const result = iddfs({
+    start: 0,
+    successors: (n) => [n + 1],
+    success: (n) => n === 0,
+    key: (n) => n,
+  });
+  assertEquals(result, [0]);
+});
+
+Deno.test("iddfs() finds the shortest path", () => {
+  // The first successor always leads down a long detour.
+  const result = iddfs({
+    start: 0,
+    successors: (n) => [n + 1, n + 10],
+    success: (n) => n === 30,
+    key: (n) => n,
+  });
+  assertEquals(result, [0, 10, 20, 30]);
+});
+
+Deno.test("iddfs() unreachable in a cyclic graph", () => {
+  // 0 <-> 1 <-> 2 <-> 0
+  const result = iddfs({
+    start: 0,
+    successors: (n) => [(n + 1) % 3, (n + 2) % 3],
+    success: (n) => n === 3,
+    key: (n) => n,
+  });
+  assertEquals(result, undefined);
+});
+
+Deno.test("iddfs() with max depth", () => {
+  const options = {
+    start: 0,
+    successors: (n: number) => [n + 1],
+    success: (n: number) => n === 5,
+    key: (n: number) => n,
+  };
+  assertEquals(iddfs({ ...options, maxDepth: 4 }), undefined);
+  assertEquals(iddfs({ ...options, maxDepth: 5 }), [0, 1, 2, 3, 4, 5]);
+});
@@ -0,0 +1,165 @@
+export interface IddfsOptions<Node> {
+  /**
+   * The starting node.
+   */
+  start: Node;
+  /**
+   * Returns a list of successors for a given node.
+   */
+  successors: (node: Node) => Iterable<Node>;
+  /**
+   * Checks whether the goal has been reached. It is not a node as some
+   * problems require a dynamic solution instead of a fixed node.
+   */
+  success: (node: Node) => boolean;
+  /**
+   * A function that returns a unique key for a node. Equal nodes must return keys
+   * that are equal.
+   * If the nodes are primitive values, are represented by persistent unique objects,
+   * or are never encountered more than once, then the identity function (`x => x`)
+   * can be used here.
+   * Otherwise, a custom function that converts the node to a string is
+   * recommended. (`JSON.stringify` can be used for this.)
+   *
+   * Keys are only used to avoid cycles along the path currently being explored, so
+   * this function is only called for nodes on and directly after that path.
+   */
+  key: (node: Node) => unknown;
+  /**
+   * Stop considering paths that have more than this number of steps.
+   */
+  maxDepth?: number;
+}
+
+/**
+ * Compute a shortest path using the [iterative deepening depth-first search
+ * algorithm](https://en.wikipedia.org/wiki/Iterative_deepening_depth-first_search).
+ *
+ * Unlike {@link bfs}, {@link dijkstra} or {@link aStar}, this function does not remember
+ * every node it has encountered: only the path currently being explored is kept in memory,
+ * which makes it suitable for huge implicit graphs. The trade-off is that nodes are visited
+ * again at every depth and once for each path leading to them. Multiple equivalent nodes
+ * (determined by the {@link IddfsOptions.key()} function) will never be included twice in
+ * the path.
+ *
+ * The path with the fewest steps starting from {@link IddfsOptions.start} up to a node for which
+ * {@link IddfsOptions.success()} returns `true` is computed and returned, or `undefined` is
+ * returned if no successful path was found. The returned path comprises both the start and end
+ * node.
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals } from "https://deno.land/std@0.189.0/testing/asserts.ts";
+ * import { iddfs } from "https://deno.land/x/lazy_pathfinding/directed/iddfs.ts";
+ *
+ * type Pos = [number, number];
+ *
+ * const goal: Pos = [4, 6];
+ *
+ * const result = iddfs<Pos>({
+ *   start: [1, 1],
+ *   successors: ([x, y]) => [
+ *     [x + 1, y + 2],
+ *     [x + 1, y - 2],
+ *     [x - 1, y + 2],
+ *     [x - 1, y - 2],
+ *     [x + 2, y + 1],
+ *     [x + 2, y - 1],
+ *     [x - 2, y + 1],
+ *     [x - 2, y - 1],
+ *   ],
+ *   success: (node) => node[0] === goal[0] && node[1] === goal[1],
+ *   key: (node) => node[0] + "," + node[1],
+ * });
+ *
+ * assertEquals(result!.length, 5);
+ * ```
+ */
+export function iddfs<Node>(options: IddfsOptions<Node>): Node[] | undefined {
+  for (
+    let depth = 0;
+    options.maxDepth === undefined || depth <= options.maxDepth;
+    depth++
+  ) {
+    const result = depthLimitedSearch(options, depth);
+    if (result === "exhausted") {
+      return undefined;
+    }
+    if (result !== "limited") {
+      return result;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * @returns The path to a successful node if one was found within the given depth,
+ * `"limited"` if the depth limit prevented some nodes from being explored, or
+ * `"exhausted"` if every node reachable without cycles was explored.
+ */
+function depthLimitedSearch<Node>(
+  options: IddfsOptions<Node>,
+  depth: number,
+): Node[] | "limited" | "exhausted" {
+  const path: Node[] = [];
+  const pathKeys: unknown[] = [];
+  const pathKeysSet = new Set<unknown>();
+  const successorIterators: Iterator<Node>[] = [];
+  let limited = false;
+
+  function leave() {
+    path.pop();
+    pathKeysSet.delete(pathKeys.pop());
+  }
+
+  /**
+   * Adds the node to the current path and starts exploring it.
+   * @returns `true` if the node is a successful node.
+   */
+  function enter(node: Node, nodeKey: unknown): boolean {
+    path.push(node);
+    pathKeys.push(nodeKey);
+    pathKeysSet.add(nodeKey);
+    if (options.success(node)) {
+      return true;
+    }
+    if (path.length > depth) {
+      // We can't go any deeper. Take note of whether there was anything left
+      // to explore here so we know whether a deeper search is worthwhile.
+      if (!limited) {
+        for (const successor of options.successors(node)) {
+          if (!pathKeysSet.has(options.key(successor))) {
+            limited = true;
+            break;
+          }
+        }
+      }
+      leave();
+    } else {
+      successorIterators.push(options.successors(node)[Symbol.iterator]());
+    }
+    return false;
+  }
+
+  if (enter(options.start, options.key(options.start))) {
+    return path;
+  }
+  while (successorIterators.length !== 0) {
+    const result = successorIterators[successorIterators.length - 1].next();
+    if (result.done) {
+      successorIterators.pop();
+      leave();
+      continue;
+    }
+    const successor = result.value;
+    const successorKey = options.key(successor);
+    if (pathKeysSet.has(successorKey)) {
+      continue;
+    }
+    if (enter(successor, successorKey)) {
+      return path;
+    }
+  }
+  return limited ? "limited" : "exhausted";
+}
@@ -0,0 +1,153 @@
+import { assertEquals } from "https://deno.land/std@0.189.0/testing/asserts.ts";
+import { aStar } from "./a_star.ts";
+import { jumpPointSearch } from "./jump_point_search.ts";
+
+Deno.test("jumpPointSearch() doc example", () => {
+  const grid = [
+    ".....",
+    ".###.",
+    ".#...",
+  ];
+  const options = {
+    start: [0, 2] as [number, number],
+    goal: [2, 2] as [number, number],
+    walkable: (x: number, y: number) => grid[y]?.[x] === ".",
+    connectivity: 4 as const,
+  };
+
+  assertEquals(jumpPointSearch(options), [
+    [[0, 2], [0, 0], [4, 0], [4, 2], [2, 2]],
+    10,
+  ]);
+  assertEquals(
+    jumpPointSearch({ ...options, expandPath: true })![0].length,
+    11,
+  );
+});
+
+Deno.test("jumpPointSearch() open grid", () => {
+  const walkable = (x: number, y: number) =>
+    x >= 0 && x < 100 && y >= 0 && y < 100;
+  assertEquals(
+    jumpPointSearch({ start: [0, 0], goal: [99, 99], walkable }),
+    [[[0, 0], [99, 99]], 99 * Math.SQRT2],
+  );
+  assertEquals(
+    jumpPointSearch({ start: [0, 0], goal: [10, 4], walkable }),
+    [[[0, 0], [4, 4], [10, 4]], 6 + 4 * Math.SQRT2],
+  );
+  assertEquals(
+    jumpPointSearch({
+      start: [0, 0],
+      goal: [3, 2],
+      walkable,
+      expandPath: true,
+    }),
+    [[[0, 0], [1, 1], [2, 2], [3, 2]], 1 + 2 * Math.SQRT2],
+  );
+});
+
+Deno.test("jumpPointSearch() start is goal", () => {
+  assertEquals(
+    jumpPointSearch({ start: [1, 1], goal: [1, 1], walkable: () => true }),
+    [[[1, 1]], 0],
+  );
+});
+
+Deno.test("jumpPointSearch() unreachable", () => {
+  const grid = [
+    "..#..",
+    "..#..",
+  ];
+  const walkable = (x: number, y: number) => grid[y]?.[x] === ".";
+  assertEquals(
+    jumpPointSearch({ start: [0, 0], goal: [4, 1], walkable }),
+    undefined,
+  );
+  assertEquals(
+    jumpPointSearch({ start: [2, 0], goal: [4, 1], walkable }),
+    undefined,
+  );
+});
+
+Deno.test("jumpPointSearch() matches aStar() on random grids", () => {
+  type Pos = [number, number];
+  const SIZE = 30;
+  // A deterministic pseudo-random sequence.
+  let seed = 7;
+  const random = () => {
+    seed = (seed * 1103515245 + 12345) % 2147483648;
+    return seed / 2147483648;
+  };
+  for (let i = 0; i < 40; i++) {
+    const walls = new Set<string>();
+    for (let j = 0; j < SIZE * SIZE * 0.3; j++) {
+      walls.add(
+        Math.floor(random() * SIZE) + "," + Math.floor(random() * SIZE),
+      );
+    }
+    const walkable = (x: number, y: number) =>
+      x >= 0 && x < SIZE && y >= 0 && y < SIZE && !walls.has(x + "," + y);
+    const start: Pos = [0, 0];
+    const goal: Pos = [SIZE - 1, SIZE - 1];
+    walls.delete(start.join(","));
+    walls.delete(goal.join(","));
+
+    for (const connectivity of [4, 8] as const) {
+      const moves: [number, number, number][] = [
+        [1, 0, 1],
+        [-1, 0, 1],
+        [0, 1, 1],
+        [0, -1, 1],
+      ];
+      if (connectivity === 8) {
+        moves.push(
+          [1, 1, Math.SQRT2],
+          [1, -1, Math.SQRT2],
+          [-1, 1, Math.SQRT2],
+          [-1, -1, Math.SQRT2],
+        );
+      }
+      const expected = aStar<Pos>({
+        start,
+        successors: ([x, y]) =>
+          moves
+            .filter(([dx, dy]) =>
+              walkable(x + dx, y + dy) && walkable(x + dx, y) &&
+              walkable(x, y + dy)
+            )
+            .map(([dx, dy, cost]) => [[x + dx, y + dy], cost]),
+        heuristic: () => 0,
+        success: ([x, y]) => x === goal[0] && y === goal[1],
+        key: ([x, y]) => x + "," + y,
+      });
+      const result = jumpPointSearch({
+        start,
+        goal,
+        walkable,
+        connectivity,
+        expandPath: true,
+      });
+      assertEquals(result === undefined, expected === undefined);
+      if (!result || !expected) {
+        continue;
+      }
+      assertEquals(Math.abs(result[1] - expected[1]) < 1e-9, true);
+      // The expanded path must be made of valid moves adding up to the cost.
+      let cost = 0;
+      for (let j = 1; j < result[0].length; j++) {
+        const [x, y] = result[0][j - 1];
+        const move = moves.find(([dx, dy]) =>
+          x + dx === result[0][j][0] && y + dy === result[0][j][1]
+        )!;
+        assertEquals(walkable(...result[0][j]), true);
+        assertEquals(
+          walkable(x + move[0], y) && walkable(x, y + move[1]),
+          true,
+        );
+        cost += move[2];
+      }
+      assertEquals(Math.abs(cost - result[1]) < 1e-9, true);
+    }
+  }
+});
@@ -0,0 +1,249 @@
+import { aStar } from "./a_star.ts";
+
+export interface JumpPointSearchOptions {
+  /**
+   * The coordinates of the starting cell.
+   */
+  start: [number, number];
+  /**
+   * The coordinates of the cell to reach.
+   */
+  goal: [number, number];
+  /**
+   * Checks whether the cell at the given coordinates can be walked on. The grid must
+   * be finite: this must return `false` for every cell outside of it.
+   */
+  walkable: (x: number, y: number) => boolean;
+  /**
+   * Whether moves are only allowed between orthogonally adjacent cells (`4`), or also
+   * between diagonally adjacent cells (`8`). Diagonal moves are only allowed when both
+   * cells orthogonally adjacent to the two cells can be walked on, so paths never cut
+   * corners. Defaults to `8`.
+   */
+  connectivity?: 4 | 8;
+  /**
+   * Whether the returned path should contain every cell walked through instead of
+   * only the jump points. Defaults to `false`.
+   */
+  expandPath?: boolean;
+}
+
+/**
+ * Compute a shortest path on a uniform-cost grid using the [Jump Point
+ * Search](https://en.wikipedia.org/wiki/Jump_point_search) algorithm.
+ *
+ * Orthogonal moves cost `1` and diagonal moves cost `Math.SQRT2`. This gives the same
+ * result as {@link aStar} would on such a grid, but instead of adding every neighboring
+ * cell to the open list, the search jumps in straight lines over the cells that can be
+ * reached at least as cheaply by another path, and only stops at the cells where the
+ * path may need to turn. This makes it much faster on large grids with open areas.
+ *
+ * The shortest path from {@link JumpPointSearchOptions.start} to
+ * {@link JumpPointSearchOptions.goal} is computed and returned along with its total cost,
+ * or `undefined` is returned if no path was found. The returned path comprises both the
+ * start and goal cells, and unless {@link JumpPointSearchOptions.expandPath} is set, only
+ * the jump points between them: consecutive cells of the path are then separated by a
+ * straight or diagonal line.
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals } from "https://deno.land/std@0.189.0/testing/asserts.ts";
+ * import { jumpPointSearch } from "https://deno.land/x/lazy_pathfinding/directed/jump_point_search.ts";
+ *
+ * const grid = [
+ *   ".....",
+ *   ".###.",
+ *   ".#...",
+ * ];
+ * const options = {
+ *   start: [0, 2] as [number, number],
+ *   goal: [2, 2] as [number, number],
+ *   walkable: (x: number, y: number) => grid[y]?.[x] === ".",
+ *   connectivity: 4 as const,
+ * };
+ *
+ * assertEquals(jumpPointSearch(options), [[[0, 2], [0, 0], [4, 0], [4, 2], [2, 2]], 10]);
+ * assertEquals(jumpPointSearch({ ...options, expandPath: true })![0].length, 11);
+ * ```
+ */
+export function jumpPointSearch(
+  options: JumpPointSearchOptions,
+): [[number, number][], number] | undefined {
+  const { walkable, goal } = options;
+  const diagonal = (options.connectivity ?? 8) === 8;
+
+  /**
+   * Move from the given cell in the given direction until a jump point is found.
+   *
+   * @returns The jump point, or `undefined` if the search reached an obstacle first.
+   */
+  const jump = (
+    x: number,
+    y: number,
+    dx: number,
+    dy: number,
+  ): [number, number] | undefined => {
+    while (true) {
+      if (!walkable(x, y)) {
+        return undefined;
+      }
+      if (x === goal[0] && y === goal[1]) {
+        return [x, y];
+      }
+      if (dx !== 0 && dy !== 0) {
+        // Diagonal moves stop wherever a straight move would find a jump point.
+        if (jump(x + dx, y, dx, 0) || jump(x, y + dy, 0, dy)) {
+          return [x, y];
+        }
+        if (!walkable(x + dx, y) || !walkable(x, y + dy)) {
+          return undefined;
+        }
+      } else if (diagonal) {
+        // A neighbor is forced if it can't be reached through the previous cell
+        // without cutting a corner.
+        if (
+          dx !== 0
+            ? (walkable(x, y - 1) && !walkable(x - dx, y - 1)) ||
+              (walkable(x, y + 1) && !walkable(x - dx, y + 1))
+            : (walkable(x - 1, y) && !walkable(x - 1, y - dy)) ||
+              (walkable(x + 1, y) && !walkable(x + 1, y - dy))
+        ) {
+          return [x, y];
+        }
+      } else if (dx !== 0) {
+        if (
+          (walkable(x, y - 1) && !walkable(x - dx, y - 1)) ||
+          (walkable(x, y + 1) && !walkable(x - dx, y + 1))
+        ) {
+          return [x, y];
+        }
+      } else if (jump(x - 1, y, -1, 0) || jump(x + 1, y, 1, 0)) {
+        // Without diagonal moves, vertical moves stop wherever a horizontal move
+        // would find a jump point.
+        return [x, y];
+      }
+      x += dx;
+      y += dy;
+    }
+  };
+
+  /**
+   * @returns The directions worth exploring from a cell reached by moving in the
+   * given direction.
+   */
+  const directions = (
+    x: number,
+    y: number,
+    dx: number,
+    dy: number,
+  ): [number, number][] => {
+    if (dx === 0 && dy === 0) {
+      const result: [number, number][] = [[1, 0], [-1, 0], [0, 1], [0, -1]];
+      if (diagonal) {
+        result.push([1, 1], [1, -1], [-1, 1], [-1, -1]);
+      }
+      return result;
+    }
+    if (dx !== 0 && dy !== 0) {
+      return [[dx, 0], [0, dy], [dx, dy]];
+    }
+    if (!diagonal) {
+      return dx !== 0 ? [[dx, 0], [0, 1], [0, -1]] : [[0, dy], [1, 0], [-1, 0]];
+    }
+    // Besides moving straight on, only the moves towards the sides may lead to
+    // cells that can't be reached at least as cheaply without going through
+    // this cell.
+    const result: [number, number][] = [[dx, dy]];
+    for (const side of [1, -1]) {
+      const [sideX, sideY] = dx !== 0 ? [0, side] : [side, 0];
+      if (walkable(x + sideX, y + sideY)) {
+        result.push([sideX, sideY], [dx + sideX, dy + sideY]);
+      }
+    }
+    return result;
+  };
+
+  interface JumpPoint {
+    x: number;
+    y: number;
+    /**
+     * The direction of the last move leading to this cell.
+     */
+    dx: number;
+    dy: number;
+  }
+
+  const distance = (
+    x: number,
+    y: number,
+    toX: number,
+    toY: number,
+  ): number => {
+    const distanceX = Math.abs(toX - x);
+    const distanceY = Math.abs(toY - y);
+    if (!diagonal) {
+      return distanceX + distanceY;
+    }
+    return Math.abs(distanceX - distanceY) +
+      Math.min(distanceX, distanceY) * Math.SQRT2;
+  };
+
+  if (!walkable(options.start[0], options.start[1])) {
+    return undefined;
+  }
+  const result = aStar<JumpPoint>({
+    start: { x: options.start[0], y: options.start[1], dx: 0, dy: 0 },
+    successors: ({ x, y, dx, dy }) => {
+      const successors: [JumpPoint, number][] = [];
+      for (const [directionX, directionY] of directions(x, y, dx, dy)) {
+        if (
+          directionX !== 0 && directionY !== 0 &&
+          (!walkable(x + directionX, y) || !walkable(x, y + directionY))
+        ) {
+          continue;
+        }
+        const jumpPoint = jump(
+          x + directionX,
+          y + directionY,
+          directionX,
+          directionY,
+        );
+        if (jumpPoint) {
+          successors.push([
+            {
+              x: jumpPoint[0],
+              y: jumpPoint[1],
+              dx: directionX,
+              dy: directionY,
+            },
+            distance(x, y, jumpPoint[0], jumpPoint[1]),
+          ]);
+        }
+      }
+      return successors;
+    },
+    heuristic: ({ x, y }) => distance(x, y, goal[0], goal[1]),
+    success: ({ x, y }) => x === goal[0] && y === goal[1],
+    key: ({ x, y }) => x + "," + y,
+  });
+  if (!result) {
+    return undefined;
+  }
+  const [jumpPoints, cost] = result;
+  const path: [number, number][] = [[jumpPoints[0].x, jumpPoints[0].y]];
+  for (let i = 1; i < jumpPoints.length; i++) {
+    const { x, y, dx, dy } = jumpPoints[i];
+    if (options.expandPath) {
+      let [currentX, currentY] = path[path.length - 1];
+      while (currentX !== x || currentY !== y) {
+        currentX += dx;
+        currentY += dy;
+        path.push([currentX, currentY]);
+      }
+    } else {
+      path.push([x, y]);
+    }
+  }
+  return [path, cost];
+}
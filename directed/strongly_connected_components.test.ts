@@ -0,0 +1,116 @@
+import { assertEquals } from "https://deno.land/std@0.189.0/testing/asserts.ts";
+import {
+  componentIndex,
+  condensation,
+  stronglyConnectedComponents,
+} from "./strongly_connected_components.ts";
+import { topologicalSort } from "./topological_sort.ts";
+import { bfsReach } from "./bfs.ts";
+
+const edges: Record<number, number[]> = {
+  1: [2],
+  2: [1, 3],
+  3: [4],
+  4: [3, 5],
+  5: [],
+};
+
+Deno.test("stronglyConnectedComponents() doc example", () => {
+  const result = stronglyConnectedComponents({
+    starts: [1],
+    successors: (n) => edges[n],
+    key: (n) => n,
+  });
+  assertEquals(result, [[5], [3, 4], [1, 2]]);
+});
+
+Deno.test("condensation() doc example", () => {
+  const options = {
+    starts: [1],
+    successors: (n: number) => edges[n],
+    key: (n: number) => n,
+  };
+  const components = stronglyConnectedComponents(options);
+  const successors = condensation(options, components);
+  assertEquals(successors(2), [1]);
+  assertEquals(successors(1), [0]);
+  assertEquals(successors(0), []);
+});
+
+Deno.test("stronglyConnectedComponents() multiple starts", () => {
+  const options = {
+    starts: [5, 3, 1, 5],
+    successors: (n: number) => edges[n],
+    key: (n: number) => n,
+  };
+  const components = stronglyConnectedComponents(options);
+  assertEquals(components, [[5], [3, 4], [1, 2]]);
+  assertEquals(
+    componentIndex(components, options.key),
+    new Map([[5, 0], [3, 1], [4, 1], [1, 2], [2, 2]]),
+  );
+});
+
+Deno.test("stronglyConnectedComponents() deep graph", () => {
+  // A single cycle going through 100000 nodes.
+  const result = stronglyConnectedComponents({
+    starts: [0],
+    successors: (n) => [(n + 1) % 100_000],
+    key: (n) => n,
+  });
+  assertEquals(result.length, 1);
+  assertEquals(result[0].length, 100_000);
+});
+
+Deno.test("stronglyConnectedComponents() random graphs", () => {
+  let seed = 42;
+  const random = () => {
+    seed = (seed * 1103515245 + 12345) % 2147483648;
+    return seed / 2147483648;
+  };
+  for (let round = 0; round < 20; round++) {
+    const size = 30;
+    const graph = Array.from(
+      { length: size },
+      () =>
+        Array.from(
+          { length: Math.floor(random() * 3) },
+          () => Math.floor(random() * size),
+        ),
+    );
+    const options = {
+      starts: [0, 1, 2],
+      successors: (n: number) => graph[n],
+      key: (n: number) => n,
+    };
+    const components = stronglyConnectedComponents(options);
+    const index = componentIndex(components, options.key);
+    const reachable = (from: number) =>
+      new Set(bfsReach({ start: from, ...options }));
+
+    const expectedNodes = new Set([0, 1, 2].flatMap((n) => [...reachable(n)]));
+    assertEquals(index.size, expectedNodes.size);
+    for (const a of expectedNodes) {
+      const fromA = reachable(a);
+      for (const b of expectedNodes) {
+        assertEquals(
+          index.get(a) === index.get(b),
+          fromA.has(b) && reachable(b).has(a),
+        );
+      }
+    }
+
+    const successors = condensation(options, components);
+    components.forEach((_, componentId) => {
+      for (const successorId of successors(componentId)) {
+        assertEquals(successorId < componentId, true);
+      }
+    });
+    // The condensation is acyclic.
+    topologicalSort({
+      roots: components.map((_, componentId) => componentId),
+      successors,
+      key: (componentId) => componentId,
+    });
+  }
+});
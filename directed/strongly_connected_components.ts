@@ -0,0 +1,209 @@
+export interface StronglyConnectedComponentsOptions<Node> {
+  /**
+   * The nodes to start the exploration from. Every node reachable from them belongs to
+   * one of the returned components.
+   */
+  starts: Iterable<Node>;
+  /**
+   * Returns a list of successors for a given node.
+   */
+  successors: (node: Node) => Iterable<Node>;
+  /**
+   * A function that returns a unique key for a node. Equal nodes must return keys
+   * that are equal.
+   * If the nodes are primitive values, are represented by persistent unique objects,
+   * or are never encountered more than once, then the identity function (`x => x`)
+   * can be used here.
+   * Otherwise, a custom function that converts the node to a string is
+   * recommended. (`JSON.stringify` can be used for this.)
+   */
+  key: (node: Node) => unknown;
+}
+
+/**
+ * Partition the nodes reachable from {@link StronglyConnectedComponentsOptions.starts} into
+ * [strongly connected components](https://en.wikipedia.org/wiki/Strongly_connected_component)
+ * using [Tarjan's
+ * algorithm](https://en.wikipedia.org/wiki/Tarjan%27s_strongly_connected_components_algorithm).
+ *
+ * Two nodes belong to the same component if each one can be reached from the other one.
+ * Multiple equivalent nodes (determined by the {@link StronglyConnectedComponentsOptions.key()}
+ * function) are only included once, and the successors of every node are only computed once.
+ * The graph is explored with an explicit stack instead of recursion, so very deep graphs do
+ * not overflow the call stack.
+ *
+ * @returns The components, each as a list of nodes in the order they were discovered. The
+ * components are in reverse topological order: no component has an edge leading to a
+ * component after it in the list.
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals } from "https://deno.land/std@0.189.0/testing/asserts.ts";
+ * import { stronglyConnectedComponents } from "https://deno.land/x/lazy_pathfinding/directed/strongly_connected_components.ts";
+ *
+ * // 1 <-> 2 -> 3 <-> 4 -> 5
+ * const edges: Record<number, number[]> = {
+ *   1: [2],
+ *   2: [1, 3],
+ *   3: [4],
+ *   4: [3, 5],
+ *   5: [],
+ * };
+ * const result = stronglyConnectedComponents({
+ *   starts: [1],
+ *   successors: (n) => edges[n],
+ *   key: (n) => n,
+ * });
+ * assertEquals(result, [[5], [3, 4], [1, 2]]);
+ * ```
+ */
+export function stronglyConnectedComponents<Node>(
+  options: StronglyConnectedComponentsOptions<Node>,
+): Node[][] {
+  const components: Node[][] = [];
+  const indexes = new Map<unknown, number>();
+  const lowLinks = new Map<unknown, number>();
+  // The nodes which are not assigned to a component yet, with the position of each one
+  // in the stack.
+  const stack: Node[] = [];
+  const stackPositions = new Map<unknown, number>();
+
+  interface Frame<Node> {
+    node: Node;
+    nodeKey: unknown;
+    successorIterator: Iterator<Node>;
+  }
+  const callStack: Frame<Node>[] = [];
+  const visit = (node: Node, nodeKey: unknown) => {
+    indexes.set(nodeKey, indexes.size);
+    lowLinks.set(nodeKey, indexes.size - 1);
+    stackPositions.set(nodeKey, stack.length);
+    stack.push(node);
+    callStack.push({
+      node,
+      nodeKey,
+      successorIterator: options.successors(node)[Symbol.iterator](),
+    });
+  };
+
+  for (const start of options.starts) {
+    const startKey = options.key(start);
+    if (indexes.has(startKey)) {
+      continue;
+    }
+    visit(start, startKey);
+    while (callStack.length !== 0) {
+      const frame = callStack[callStack.length - 1];
+      const next = frame.successorIterator.next();
+      if (!next.done) {
+        const successorKey = options.key(next.value);
+        if (!indexes.has(successorKey)) {
+          visit(next.value, successorKey);
+        } else if (stackPositions.has(successorKey)) {
+          lowLinks.set(
+            frame.nodeKey,
+            Math.min(lowLinks.get(frame.nodeKey)!, indexes.get(successorKey)!),
+          );
+        }
+        continue;
+      }
+      callStack.pop();
+      const lowLink = lowLinks.get(frame.nodeKey)!;
+      if (callStack.length !== 0) {
+        const parentKey = callStack[callStack.length - 1].nodeKey;
+        lowLinks.set(parentKey, Math.min(lowLinks.get(parentKey)!, lowLink));
+      }
+      if (lowLink === indexes.get(frame.nodeKey)) {
+        const component = stack.splice(stackPositions.get(frame.nodeKey)!);
+        for (const node of component) {
+          stackPositions.delete(options.key(node));
+        }
+        components.push(component);
+      }
+    }
+  }
+  return components;
+}
+
+/**
+ * Locate nodes amongst strongly connected components.
+ *
+ * @param components - A list of disjoint components, such as the ones returned by
+ * {@link stronglyConnectedComponents}.
+ * @param key - The function used to compute the key of a node, as in
+ * {@link StronglyConnectedComponentsOptions.key}.
+ * @returns This function returns a map between the key of every node and the index of the
+ * component it belongs to in the `components` list.
+ */
+export function componentIndex<Node>(
+  components: Node[][],
+  key: (node: Node) => unknown,
+): Map<unknown, number> {
+  const result = new Map<unknown, number>();
+  components.forEach((component, index) => {
+    component.forEach((node) => result.set(key(node), index));
+  });
+  return result;
+}
+
+/**
+ * Build the [condensation](https://en.wikipedia.org/wiki/Strongly_connected_component#Definitions)
+ * of a directed graph, where every strongly connected component is contracted into a single
+ * node. The condensation is always acyclic.
+ *
+ * @param options - The options describing the graph, as given to
+ * {@link stronglyConnectedComponents}.
+ * @param components - The components returned by {@link stronglyConnectedComponents} for
+ * this graph.
+ * @returns A successor function over component indexes in the `components` list, which can
+ * be given to the other algorithms of this library using the identity function as `key`. A
+ * component is never its own successor, and the successors of a component always come before
+ * it in the `components` list. The successors of every component are only computed once.
+ *
+ * # Example
+ *
+ * ```ts
+ * const edges: Record<number, number[]> = {
+ *   1: [2],
+ *   2: [1, 3],
+ *   3: [4],
+ *   4: [3, 5],
+ *   5: [],
+ * };
+ * const options = {
+ *   starts: [1],
+ *   successors: (n: number) => edges[n],
+ *   key: (n: number) => n,
+ * };
+ * const components = stronglyConnectedComponents(options);
+ * const successors = condensation(options, components);
+ * assertEquals(successors(2), [1]);
+ * assertEquals(successors(1), [0]);
+ * assertEquals(successors(0), []);
+ * ```
+ */
+export function condensation<Node>(
+  options: Omit<StronglyConnectedComponentsOptions<Node>, "starts">,
+  components: Node[][],
+): (componentId: number) => number[] {
+  const indexesByKey = componentIndex(components, options.key);
+  const cache = new Map<number, number[]>();
+  return (componentId) => {
+    let result = cache.get(componentId);
+    if (!result) {
+      const successorIds = new Set<number>();
+      for (const node of components[componentId]) {
+        for (const successor of options.successors(node)) {
+          const successorId = indexesByKey.get(options.key(successor))!;
+          if (successorId !== componentId) {
+            successorIds.add(successorId);
+          }
+        }
+      }
+      result = Array.from(successorIds);
+      cache.set(componentId, result);
+    }
+    return result;
+  };
+}
@@ -0,0 +1,132 @@
+import { assertEquals } from "https://deno.land/std@0.189.0/testing/asserts.ts";
+import { aStar } from "./a_star.ts";
+import { thetaStar } from "./theta_star.ts";
+
+type Pos = [number, number];
+
+const distance = (a: Pos, b: Pos) => Math.hypot(a[0] - b[0], a[1] - b[1]);
+
+function gridOptions(grid: string[], goal: Pos) {
+  const walkable = ([x, y]: Pos) => grid[y]?.[x] === ".";
+  return {
+    successors: ([x, y]: Pos): [Pos, number][] =>
+      ([
+        [x + 1, y],
+        [x - 1, y],
+        [x, y + 1],
+        [x, y - 1],
+        [x + 1, y + 1],
+        [x + 1, y - 1],
+        [x - 1, y + 1],
+        [x - 1, y - 1],
+      ] as Pos[])
+        .filter((p) =>
+          walkable(p) && walkable([p[0], y]) && walkable([x, p[1]])
+        )
+        .map((p) => [p, distance([x, y], p)]),
+    heuristic: (node: Pos) => distance(node, goal),
+    success: (node: Pos) => node[0] === goal[0] && node[1] === goal[1],
+    key: (node: Pos) => node[0] + "," + node[1],
+    // Check every cell touched by the segment, with a small margin.
+    lineOfSight: (a: Pos, b: Pos) => {
+      const steps = Math.ceil(distance(a, b) * 10);
+      for (let i = 0; i <= steps; i++) {
+        const x = a[0] + (b[0] - a[0]) * i / steps;
+        const y = a[1] + (b[1] - a[1]) * i / steps;
+        for (const dx of [-0.01, 0.01]) {
+          for (const dy of [-0.01, 0.01]) {
+            if (!walkable([Math.round(x + dx), Math.round(y + dy)])) {
+              return false;
+            }
+          }
+        }
+      }
+      return true;
+    },
+    distance,
+  };
+}
+
+Deno.test("thetaStar() doc example", () => {
+  // An open 10x10 grid where each cell leads to its 8 neighbors.
+  const inGrid = ([x, y]: Pos) => x >= 0 && x < 10 && y >= 0 && y < 10;
+  const goal: Pos = [9, 3];
+
+  const result = thetaStar<Pos>({
+    start: [0, 0],
+    successors: ([x, y]) =>
+      ([
+        [x + 1, y],
+        [x - 1, y],
+        [x, y + 1],
+        [x, y - 1],
+        [x + 1, y + 1],
+        [x + 1, y - 1],
+        [x - 1, y + 1],
+        [x - 1, y - 1],
+      ] as Pos[])
+        .filter(inGrid)
+        .map((p) => [p, distance([x, y], p)]),
+    heuristic: (node) => distance(node, goal),
+    success: (node) => node[0] === goal[0] && node[1] === goal[1],
+    key: (node) => node[0] + "," + node[1],
+    lineOfSight: () => true,
+    distance,
+  });
+
+  assertEquals(result, [[[0, 0], [9, 3]], Math.hypot(9, 3)]);
+});
+
+Deno.test("thetaStar() around a wall", () => {
+  const grid = [
+    "..........",
+    "..........",
+    "....#.....",
+    "....#.....",
+    "....#.....",
+    "..........",
+  ];
+  const goal: Pos = [9, 3];
+  const options = gridOptions(grid, goal);
+  const [path, cost] = thetaStar<Pos>({ ...options, start: [0, 3] })!;
+  assertEquals(path[0], [0, 3]);
+  assertEquals(path[path.length - 1], goal);
+  // The path turns once at a corner of the wall.
+  assertEquals(path.length, 3);
+  let pathCost = 0;
+  for (let i = 1; i < path.length; i++) {
+    assertEquals(options.lineOfSight(path[i - 1], path[i]), true);
+    pathCost += distance(path[i - 1], path[i]);
+  }
+  assertEquals(Math.abs(pathCost - cost) < 1e-9, true);
+  const [, gridCost] = aStar<Pos>({ ...options, start: [0, 3] })!;
+  assertEquals(cost < gridCost, true);
+});
+
+Deno.test("thetaStar() without line of sight matches aStar()", () => {
+  const grid = [
+    "......",
+    ".####.",
+    ".#..#.",
+    ".#.##.",
+    "......",
+  ];
+  const goal: Pos = [2, 2];
+  const options = { ...gridOptions(grid, goal), lineOfSight: () => false };
+  assertEquals(
+    thetaStar<Pos>({ ...options, start: [0, 0] }),
+    aStar<Pos>({ ...options, start: [0, 0] }),
+  );
+});
+
+Deno.test("thetaStar() unreachable", () => {
+  const grid = [
+    "..#..",
+    "..#..",
+  ];
+  const goal: Pos = [4, 0];
+  assertEquals(
+    thetaStar<Pos>({ ...gridOptions(grid, goal), start: [0, 0] }),
+    undefined,
+  );
+});
@@ -0,0 +1,201 @@
+import { BinaryHeap } from "https://deno.land/std@0.189.0/collections/binary_heap.ts";
+import { AStarOptions } from "./a_star.ts";
+import { reversePath } from "./_reverse_path.ts";
+import {
+  compareSmallestCostHolders,
+  SmallestCostHolder,
+} from "./_smallest_cost_holder.ts";
+import { getStarts } from "./_starts.ts";
+import { CostOptions, numberCostOptions } from "./cost_options.ts";
+
+export interface ThetaStarOptions<Node, Cost = number>
+  extends AStarOptions<Node, Cost> {
+  /**
+   * Checks whether it is possible to move in a straight line from a node to another
+   * node, which don't need to be successors of each other.
+   */
+  lineOfSight: (a: Node, b: Node) => boolean;
+  /**
+   * Returns the cost of moving in a straight line from a node to another node for
+   * which {@link ThetaStarOptions.lineOfSight()} returned `true`.
+   */
+  distance: (a: Node, b: Node) => Cost;
+}
+
+/**
+ * Compute a short any-angle path using the [Theta* search
+ * algorithm](https://en.wikipedia.org/wiki/Theta*).
+ *
+ * This works like {@link aStar}, except that whenever a node can be seen from the parent of the
+ * node it is reached from (according to {@link ThetaStarOptions.lineOfSight()}), the path goes
+ * straight from that parent to the node instead. Paths on grids are then made of straight
+ * lines in any direction instead of zig-zagging between neighboring cells. The resulting path
+ * is usually shorter than the one given by {@link aStar}, but it is not guaranteed to be the
+ * shortest any-angle path.
+ *
+ * Multiple equivalent nodes (determined by the {@link AStarOptions.key()} function) will never
+ * be included twice in the path.
+ *
+ * The path starting from {@link AStarOptions.start} (or from any of {@link AStarOptions.starts}) up to a node
+ * for which {@link AStarOptions.success()} returns `true` is computed and returned along with its total cost, or `undefined`
+ * is returned if no successful path was found. The returned path comprises both the start and end node, and
+ * two consecutive nodes of the path may not be successors of each other but always have a line of sight.
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals } from "https://deno.land/std@0.189.0/testing/asserts.ts";
+ * import { thetaStar } from "https://deno.land/x/lazy_pathfinding/directed/theta_star.ts";
+ *
+ * type Pos = [number, number];
+ *
+ * // An open 10x10 grid where each cell leads to its 8 neighbors.
+ * const inGrid = ([x, y]: Pos) => x >= 0 && x < 10 && y >= 0 && y < 10;
+ * const distance = (a: Pos, b: Pos) => Math.hypot(a[0] - b[0], a[1] - b[1]);
+ * const goal: Pos = [9, 3];
+ *
+ * const result = thetaStar<Pos>({
+ *   start: [0, 0],
+ *   successors: ([x, y]) =>
+ *     ([
+ *       [x + 1, y],
+ *       [x - 1, y],
+ *       [x, y + 1],
+ *       [x, y - 1],
+ *       [x + 1, y + 1],
+ *       [x + 1, y - 1],
+ *       [x - 1, y + 1],
+ *       [x - 1, y - 1],
+ *     ] as Pos[])
+ *       .filter(inGrid)
+ *       .map((p) => [p, distance([x, y], p)]),
+ *   heuristic: (node) => distance(node, goal),
+ *   success: (node) => node[0] === goal[0] && node[1] === goal[1],
+ *   key: (node) => node[0] + "," + node[1],
+ *   lineOfSight: () => true,
+ *   distance,
+ * });
+ *
+ * assertEquals(result, [[[0, 0], [9, 3]], Math.hypot(9, 3)]);
+ * ```
+ */
+export function thetaStar<Node, Cost = number>(
+  options: ThetaStarOptions<Node, Cost>,
+): [Node[], Cost] | undefined {
+  const costOptions = options.costOptions ??
+    numberCostOptions as CostOptions<unknown> as CostOptions<Cost>;
+
+  const toSee = new BinaryHeap<SmallestCostHolder<Cost>>((a, b) =>
+    compareSmallestCostHolders(costOptions, a, b)
+  );
+
+  interface EncounteredNodeEntry<Node, Cost> {
+    node: Node;
+    /**
+     * Either the key of the parent or `undefined`.
+     */
+    parentKey: unknown;
+    cost: Cost;
+  }
+  const encounteredNodes = new Map<unknown, EncounteredNodeEntry<Node, Cost>>();
+  // The nodes which have already been expanded, whose cost is final.
+  const closedNodeKeys = new Set<unknown>();
+  for (const [start, cost] of getStarts(options, costOptions)) {
+    if (
+      options.maxCost !== undefined &&
+      costOptions.compareFn(cost, options.maxCost) > 0
+    ) {
+      continue;
+    }
+    const startKey = options.key(start);
+    const encounteredNodeEntry = encounteredNodes.get(startKey);
+    if (
+      !encounteredNodeEntry ||
+      costOptions.compareFn(encounteredNodeEntry.cost, cost) > 0
+    ) {
+      encounteredNodes.set(startKey, {
+        node: start,
+        parentKey: undefined,
+        cost,
+      });
+      toSee.push({
+        estimatedCost: costOptions.add(cost, options.heuristic(start)),
+        cost,
+        nodeKey: startKey,
+      });
+    }
+  }
+  while (true) {
+    const smallestCostHolder = toSee.pop();
+    if (!smallestCostHolder) {
+      break;
+    }
+    const nodeKey = smallestCostHolder.nodeKey;
+    const { node, parentKey, cost } = encounteredNodes.get(nodeKey)!;
+    if (options.success(node)) {
+      const path = reversePath(encounteredNodes, (e) => e.parentKey, nodeKey)
+        .map((nodeKey) => encounteredNodes.get(nodeKey)!.node);
+      return [path, cost];
+    }
+    // We may have inserted a node several time into the binary heap if we found
+    // a better way to access it. Ensure that we are currently dealing with the
+    // best path and discard the others.
+    if (closedNodeKeys.has(nodeKey)) {
+      continue;
+    }
+    closedNodeKeys.add(nodeKey);
+    const parentEntry = parentKey === undefined
+      ? undefined
+      : encounteredNodes.get(parentKey)!;
+    const successors = options.successors(node);
+    for (const [successor, moveCost] of successors) {
+      const successorKey = options.key(successor);
+      if (closedNodeKeys.has(successorKey)) {
+        continue;
+      }
+
+      // Go straight from the parent of the current node to the successor if
+      // possible, or else go through the current node.
+      let newParentKey = nodeKey;
+      let newCost = costOptions.add(cost, moveCost);
+      if (parentEntry && options.lineOfSight(parentEntry.node, successor)) {
+        newParentKey = parentKey;
+        newCost = costOptions.add(
+          parentEntry.cost,
+          options.distance(parentEntry.node, successor),
+        );
+      }
+
+      if (
+        options.maxCost !== undefined &&
+        costOptions.compareFn(newCost, options.maxCost) > 0
+      ) {
+        continue;
+      }
+
+      const encounteredNodeEntry = encounteredNodes.get(successorKey);
+
+      // if we've never seen this node or encounteredNodeEntry.cost > newCost,
+      // then record this path as the best path to get to get to this node.
+      if (
+        !encounteredNodeEntry ||
+        costOptions.compareFn(encounteredNodeEntry.cost, newCost) > 0
+      ) {
+        encounteredNodes.set(successorKey, {
+          node: successor,
+          parentKey: newParentKey,
+          cost: newCost,
+        });
+        toSee.push({
+          estimatedCost: costOptions.add(
+            newCost,
+            options.heuristic(successor),
+          ),
+          cost: newCost,
+          nodeKey: successorKey,
+        });
+      }
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,135 @@
+import {
+  assertEquals,
+  assertThrows,
+} from "https://deno.land/std@0.189.0/testing/asserts.ts";
+import {
+  CycleError,
+  topologicalSort,
+  topologicalSortLayers,
+} from "./topological_sort.ts";
+
+const dependents: Record<string, string[]> = {
+  fetch: ["compile", "lint"],
+  compile: ["test", "package"],
+  lint: ["package"],
+  test: ["package"],
+  package: [],
+};
+
+Deno.test("topologicalSort() doc example", () => {
+  const result = topologicalSort({
+    roots: ["fetch"],
+    successors: (step) => dependents[step],
+    key: (step) => step,
+  });
+  assertEquals(result, ["fetch", "lint", "compile", "test", "package"]);
+});
+
+Deno.test("topologicalSortLayers() doc example", () => {
+  const result = topologicalSortLayers({
+    roots: ["fetch"],
+    successors: (step) => dependents[step],
+    key: (step) => step,
+  });
+  assertEquals(result, [["fetch"], ["compile", "lint"], ["test"], [
+    "package",
+  ]]);
+});
+
+Deno.test("topologicalSort() multiple roots", () => {
+  const result = topologicalSort({
+    roots: [6, 2, 6],
+    successors: (n) => [2, 3, 5].map((m) => m * n).filter((m) => m <= 30),
+    key: (n) => n,
+  });
+  assertEquals(result.length, 11);
+  assertEquals(new Set(result).size, 11);
+  result.forEach((n, i) => {
+    for (const m of result.slice(i + 1)) {
+      assertEquals(n % m === 0 && n !== m, false);
+    }
+  });
+  assertEquals(
+    topologicalSort({ roots: [], successors: () => [], key: (n) => n }),
+    [],
+  );
+});
+
+Deno.test("topologicalSort() deep graph", () => {
+  const result = topologicalSort({
+    roots: [0],
+    successors: (n) => n < 100_000 ? [n + 1] : [],
+    key: (n) => n,
+  });
+  assertEquals(result.length, 100_001);
+  assertEquals(result[100_000], 100_000);
+});
+
+Deno.test("topologicalSort() cycle", () => {
+  const options = {
+    roots: [0],
+    // 0 -> 1 -> 2 -> 3 -> 4 -> 2
+    successors: (n: number) => n === 4 ? [2] : [n + 1],
+    key: (n: number) => n,
+  };
+  const error = assertThrows(
+    () => topologicalSort(options),
+    CycleError,
+  ) as CycleError<number>;
+  assertEquals(error.cycle, [2, 3, 4]);
+
+  const layersError = assertThrows(
+    () => topologicalSortLayers(options),
+    CycleError,
+  ) as CycleError<number>;
+  assertEquals(layersError.cycle, [2, 3, 4]);
+});
+
+Deno.test("topologicalSort() self loop", () => {
+  const options = {
+    roots: ["a"],
+    successors: (n: string) => n === "a" ? ["b", "c"] : n === "c" ? ["c"] : [],
+    key: (n: string) => n,
+  };
+  const error = assertThrows(
+    () => topologicalSort(options),
+    CycleError,
+  ) as CycleError<string>;
+  assertEquals(error.cycle, ["c"]);
+  const layersError = assertThrows(
+    () => topologicalSortLayers(options),
+    CycleError,
+  ) as CycleError<string>;
+  assertEquals(layersError.cycle, ["c"]);
+});
+
+Deno.test("topologicalSortLayers() computes successors once", () => {
+  const calls = new Map<number, number>();
+  const result = topologicalSortLayers({
+    roots: [1, 2],
+    successors: (n) => {
+      calls.set(n, (calls.get(n) ?? 0) + 1);
+      return n < 4 ? [n + 2, n + 3] : [];
+    },
+    key: (n) => n,
+  });
+  assertEquals(result, [[1, 2], [3, 4], [5, 6]]);
+  assertEquals(Array.from(calls.values()).every((c) => c === 1), true);
+});
+
+Deno.test("topologicalSortLayers() sorts layers in discovery order", () => {
+  // y is discovered before x, but x is ready before y.
+  const edges: Record<string, string[]> = {
+    r: ["a", "b"],
+    a: ["y"],
+    b: ["x", "y"],
+    x: [],
+    y: [],
+  };
+  const result = topologicalSortLayers({
+    roots: ["r"],
+    successors: (n) => edges[n],
+    key: (n) => n,
+  });
+  assertEquals(result, [["r"], ["a", "b"], ["y", "x"]]);
+});
@@ -0,0 +1,199 @@
+import { postorder } from "./_postorder.ts";
+
+export interface TopologicalSortOptions<Node> {
+  /**
+   * The nodes to start the exploration from. Every node reachable from them is sorted.
+   */
+  roots: Iterable<Node>;
+  /**
+   * Returns a list of successors for a given node. Every node is sorted before its
+   * successors.
+   */
+  successors: (node: Node) => Iterable<Node>;
+  /**
+   * A function that returns a unique key for a node. Equal nodes must return keys
+   * that are equal.
+   * If the nodes are primitive values, are represented by persistent unique objects,
+   * or are never encountered more than once, then the identity function (`x => x`)
+   * can be used here.
+   * Otherwise, a custom function that converts the node to a string is
+   * recommended. (`JSON.stringify` can be used for this.)
+   */
+  key: (node: Node) => unknown;
+}
+
+/**
+ * Thrown by functions that can't give a result when the graph contains a cycle.
+ */
+export class CycleError<Node> extends Error {
+  /**
+   * A cycle, as a list of nodes where each node is followed by its successor in the
+   * cycle, and the last node leads back to the first one.
+   */
+  cycle: Node[];
+
+  constructor(cycle: Node[]) {
+    super("A cycle was found");
+    this.name = "CycleError";
+    this.cycle = cycle;
+  }
+}
+
+/**
+ * Sort the nodes reachable from {@link TopologicalSortOptions.roots} so that every node
+ * comes before its successors, using a [depth-first
+ * search](https://en.wikipedia.org/wiki/Topological_sorting#Depth-first_search).
+ *
+ * Multiple equivalent nodes (determined by the {@link TopologicalSortOptions.key()} function)
+ * are only included once. The graph is explored with an explicit stack instead of recursion,
+ * so very deep graphs do not overflow the call stack.
+ *
+ * A {@link CycleError} containing one of the cycles is thrown if the reachable part of the
+ * graph is not acyclic.
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals } from "https://deno.land/std@0.189.0/testing/asserts.ts";
+ * import { topologicalSort } from "https://deno.land/x/lazy_pathfinding/directed/topological_sort.ts";
+ *
+ * const dependents: Record<string, string[]> = {
+ *   fetch: ["compile", "lint"],
+ *   compile: ["test", "package"],
+ *   lint: ["package"],
+ *   test: ["package"],
+ *   package: [],
+ * };
+ * const result = topologicalSort({
+ *   roots: ["fetch"],
+ *   successors: (step) => dependents[step],
+ *   key: (step) => step,
+ * });
+ * assertEquals(result, ["fetch", "lint", "compile", "test", "package"]);
+ * ```
+ */
+export function topologicalSort<Node>(
+  options: TopologicalSortOptions<Node>,
+): Node[] {
+  const [order, cycle] = postorder(options);
+  if (cycle) {
+    throw new CycleError(cycle);
+  }
+  return order.reverse();
+}
+
+/**
+ * Sort the nodes reachable from {@link TopologicalSortOptions.roots} into layers using
+ * [Kahn's algorithm](https://en.wikipedia.org/wiki/Topological_sorting#Kahn's_algorithm).
+ *
+ * The first layer contains the nodes which are not the successor of any reachable node,
+ * and every other layer contains the nodes whose predecessors all belong to previous
+ * layers. The nodes of a layer don't depend on each other, so they can be processed in
+ * parallel once the previous layers are done. Within a layer, nodes are sorted in the order
+ * they were discovered.
+ *
+ * All reachable nodes are discovered before the first layer is built, and the successors of
+ * every node are only computed once. Multiple equivalent nodes (determined by the
+ * {@link TopologicalSortOptions.key()} function) are only included once.
+ *
+ * A {@link CycleError} containing one of the cycles is thrown if the reachable part of the
+ * graph is not acyclic.
+ *
+ * # Example
+ *
+ * ```ts
+ * const dependents: Record<string, string[]> = {
+ *   fetch: ["compile", "lint"],
+ *   compile: ["test", "package"],
+ *   lint: ["package"],
+ *   test: ["package"],
+ *   package: [],
+ * };
+ * const result = topologicalSortLayers({
+ *   roots: ["fetch"],
+ *   successors: (step) => dependents[step],
+ *   key: (step) => step,
+ * });
+ * assertEquals(result, [["fetch"], ["compile", "lint"], ["test"], ["package"]]);
+ * ```
+ */
+export function topologicalSortLayers<Node>(
+  options: TopologicalSortOptions<Node>,
+): Node[][] {
+  interface DiscoveredNodeEntry<Node> {
+    node: Node;
+    successorKeys: unknown[];
+    /**
+     * The number of edges coming from nodes which aren't in a layer yet.
+     */
+    inDegree: number;
+    /**
+     * The number of nodes discovered before this one.
+     */
+    index: number;
+  }
+  const discoveredNodes = new Map<unknown, DiscoveredNodeEntry<Node>>();
+  const toExplore: Node[] = [];
+  const discover = (node: Node) => {
+    const nodeKey = options.key(node);
+    if (!discoveredNodes.has(nodeKey)) {
+      discoveredNodes.set(nodeKey, {
+        node,
+        successorKeys: [],
+        inDegree: 0,
+        index: discoveredNodes.size,
+      });
+      toExplore.push(node);
+    }
+    return nodeKey;
+  };
+  for (const root of options.roots) {
+    discover(root);
+  }
+  for (let i = 0; i < toExplore.length; i++) {
+    const node = toExplore[i];
+    const { successorKeys } = discoveredNodes.get(options.key(node))!;
+    for (const successor of options.successors(node)) {
+      const successorKey = discover(successor);
+      successorKeys.push(successorKey);
+      discoveredNodes.get(successorKey)!.inDegree++;
+    }
+  }
+
+  const layers: Node[][] = [];
+  let layerKeys = Array.from(discoveredNodes.keys()).filter((nodeKey) =>
+    discoveredNodes.get(nodeKey)!.inDegree === 0
+  );
+  let sortedCount = 0;
+  while (layerKeys.length !== 0) {
+    layers.push(layerKeys.map((nodeKey) => discoveredNodes.get(nodeKey)!.node));
+    sortedCount += layerKeys.length;
+    const nextLayerKeys: unknown[] = [];
+    for (const nodeKey of layerKeys) {
+      for (const successorKey of discoveredNodes.get(nodeKey)!.successorKeys) {
+        if (--discoveredNodes.get(successorKey)!.inDegree === 0) {
+          nextLayerKeys.push(successorKey);
+        }
+      }
+    }
+    // The nodes are added to the next layer in the order their last predecessor was
+    // sorted, so they are sorted back in the order they were discovered.
+    layerKeys = nextLayerKeys.sort((a, b) =>
+      discoveredNodes.get(a)!.index - discoveredNodes.get(b)!.index
+    );
+  }
+  if (sortedCount !== discoveredNodes.size) {
+    // Some nodes are part of or reachable from a cycle. Find it through a depth-first
+    // search without computing the successors again.
+    const [, cycle] = postorder({
+      roots: toExplore,
+      successors: (node) =>
+        discoveredNodes.get(options.key(node))!.successorKeys.map((
+          successorKey,
+        ) => discoveredNodes.get(successorKey)!.node),
+      key: options.key,
+    });
+    throw new CycleError(cycle!);
+  }
+  return layers;
+}
@@ -0,0 +1,158 @@
+import { assertEquals } from "https://deno.land/std@0.189.0/testing/asserts.ts";
+import { CostOptions } from "./cost_options.ts";
+import { yen, yenPaths } from "./yen.ts";
+
+function successors(c: string): [string, number][] {
+  switch (c) {
+    case "c":
+      return [["d", 3], ["e", 2]];
+    case "d":
+      return [["f", 4]];
+    case "e":
+      return [["d", 1], ["f", 2], ["g", 3]];
+    case "f":
+      return [["g", 2], ["h", 1]];
+    case "g":
+      return [["h", 2]];
+    default:
+      return [];
+  }
+}
+
+Deno.test("yen() doc example", () => {
+  const paths = yen({
+    start: "c",
+    successors,
+    success: (c) => c === "h",
+    key: (c) => c,
+    k: 3,
+  });
+  assertEquals(paths, [
+    [["c", "e", "f", "h"], 5],
+    [["c", "e", "g", "h"], 7],
+    [["c", "d", "f", "h"], 8],
+  ]);
+});
+
+Deno.test("yen() all paths", () => {
+  const paths = yen({
+    start: "c",
+    successors,
+    success: (c) => c === "h",
+    key: (c) => c,
+    k: 10,
+  });
+  assertEquals(paths.length, 7);
+  assertEquals(paths.map(([, cost]) => cost), [5, 7, 8, 8, 8, 11, 11]);
+  assertEquals(
+    new Set(paths.map(([path]) => path.join(""))).size,
+    paths.length,
+  );
+});
+
+Deno.test("yen() no path", () => {
+  const paths = yen({
+    start: "c",
+    successors,
+    success: (c) => c === "z",
+    key: (c) => c,
+    k: 3,
+  });
+  assertEquals(paths, []);
+});
+
+Deno.test("yen() start is success", () => {
+  const paths = yen({
+    start: "h",
+    successors,
+    success: (c) => c === "h",
+    key: (c) => c,
+    k: 3,
+  });
+  assertEquals(paths, [[["h"], 0]]);
+});
+
+Deno.test("yen() with max cost", () => {
+  const paths = yen({
+    start: "c",
+    successors,
+    success: (c) => c === "h",
+    key: (c) => c,
+    k: 10,
+    maxCost: 7,
+  });
+  assertEquals(paths, [
+    [["c", "e", "f", "h"], 5],
+    [["c", "e", "g", "h"], 7],
+  ]);
+});
+
+Deno.test("yen() with multiple sinks", () => {
+  // 1 --> 2 --> 3
+  //   --> 4 --> 3
+  // 3 and 4 are both successful
+  const paths = yen({
+    start: 1,
+    successors: (n): [number, number][] => {
+      switch (n) {
+        case 1:
+          return [[2, 1], [4, 5]];
+        case 2:
+          return [[3, 1]];
+        case 4:
+          return [[3, 1]];
+        default:
+          return [];
+      }
+    },
+    success: (n) => n === 3 || n === 4,
+    key: (n) => n,
+    k: 5,
+  });
+  assertEquals(paths, [
+    [[1, 2, 3], 2],
+    [[1, 4], 5],
+  ]);
+});
+
+Deno.test("yenPaths() is lazy on an infinite graph", () => {
+  // Every node n has an edge to n + 1 and a more expensive edge to n + 2.
+  const found: [number[], number][] = [];
+  for (
+    const path of yenPaths({
+      start: 0,
+      successors: (n): [number, number][] => [[n + 1, 1], [n + 2, 3]],
+      success: (n) => n === 4,
+      key: (n) => n,
+      maxCost: 100,
+    })
+  ) {
+    found.push(path);
+    if (found.length === 2) {
+      break;
+    }
+  }
+  assertEquals(found.map(([, cost]) => cost), [4, 5]);
+  assertEquals(found[0][0], [0, 1, 2, 3, 4]);
+});
+
+Deno.test("yen() with custom costs", () => {
+  type Cost = [number, number];
+  const costOptions: CostOptions<Cost> = {
+    zero: [0, 0],
+    add: (a, b) => [a[0] + b[0], a[1] + b[1]],
+    compareFn: (a, b) => a[0] - b[0] || a[1] - b[1],
+  };
+  const paths = yen<string, Cost>({
+    start: "c",
+    successors: (c) => successors(c).map(([n, cost]) => [n, [0, cost]]),
+    success: (c) => c === "h",
+    key: (c) => c,
+    costOptions,
+    k: 2,
+  });
+  assertEquals(paths, [
+    [["c", "e", "f", "h"], [0, 5]],
+    [["c", "e", "g", "h"], [0, 7]],
+  ]);
+});
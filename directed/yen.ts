@@ -0,0 +1,257 @@
+import { BinaryHeap } from "https://deno.land/std@0.189.0/collections/binary_heap.ts";
+import { reversePath } from "./_reverse_path.ts";
+import { CostOptions, numberCostOptions } from "./cost_options.ts";
+import { DijkstraOptions, dijkstraPartial } from "./dijkstra.ts";
+
+export interface YenOptions<Node, Cost = number>
+  extends Omit<DijkstraOptions<Node, Cost>, "start" | "starts" | "startNodes"> {
+  /**
+   * The starting node shared by every path.
+   */
+  start: Node;
+  /**
+   * The maximum number of paths to return.
+   */
+  k: number;
+}
+
+/**
+ * Compute the k-shortest paths using the [Yen's search
+ * algorithm](https://en.wikipedia.org/wiki/Yen%27s_algorithm).
+ *
+ * The `k`-shortest loopless paths starting from {@link YenOptions.start} up to a node for
+ * which {@link DijkstraOptions.success()} returns `true` are computed along with their total cost.
+ * The result is returned as an array of (path, cost) pairs sorted by cost (and then by number of
+ * nodes), which contains fewer than `k` entries if there are not enough paths. Each path comprises both the start and an end node.
+ * Note that while every path shares the same start node, different paths may have different end
+ * nodes.
+ *
+ * Multiple equivalent nodes (determined by the {@link DijkstraOptions.key()} function) will never
+ * be included twice in a path, and no path will be returned twice.
+ *
+ * # Example
+ *
+ * ```ts
+ * import { assertEquals } from "https://deno.land/std@0.189.0/testing/asserts.ts";
+ * import { yen } from "https://deno.land/x/lazy_pathfinding/directed/yen.ts";
+ *
+ * // Find 3 shortest paths from 'c' to 'h'
+ * const paths = yen({
+ *   start: "c",
+ *   successors: (c): [string, number][] => {
+ *     switch (c) {
+ *       case "c":
+ *         return [["d", 3], ["e", 2]];
+ *       case "d":
+ *         return [["f", 4]];
+ *       case "e":
+ *         return [["d", 1], ["f", 2], ["g", 3]];
+ *       case "f":
+ *         return [["g", 2], ["h", 1]];
+ *       case "g":
+ *         return [["h", 2]];
+ *       default:
+ *         return [];
+ *     }
+ *   },
+ *   success: (c) => c === "h",
+ *   key: (c) => c,
+ *   k: 3,
+ * });
+ *
+ * assertEquals(paths, [
+ *   [["c", "e", "f", "h"], 5],
+ *   [["c", "e", "g", "h"], 7],
+ *   [["c", "d", "f", "h"], 8],
+ * ]);
+ * ```
+ */
+export function yen<Node, Cost = number>(
+  options: YenOptions<Node, Cost>,
+): [Node[], Cost][] {
+  const result: [Node[], Cost][] = [];
+  if (options.k <= 0) {
+    return result;
+  }
+  for (const path of yenPaths(options)) {
+    result.push(path);
+    if (result.length >= options.k) {
+      break;
+    }
+  }
+  return result;
+}
+
+/**
+ * Lazily compute the shortest paths in order of increasing cost using the [Yen's search
+ * algorithm](https://en.wikipedia.org/wiki/Yen%27s_algorithm).
+ *
+ * This works like {@link yen} but without a limit on the number of paths. Each (path, cost)
+ * pair is only computed when the iteration reaches it, so the iteration can be stopped as soon
+ * as an acceptable path is found.
+ */
+export function* yenPaths<Node, Cost = number>(
+  options: Omit<YenOptions<Node, Cost>, "k">,
+): Generator<[Node[], Cost], void, undefined> {
+  const costOptions = options.costOptions ??
+    numberCostOptions as CostOptions<unknown> as CostOptions<Cost>;
+
+  const firstPath = shortestPath(options, options.start, new Set(), new Set());
+  if (!firstPath) {
+    return;
+  }
+
+  const routes: YenPath<Node, Cost>[] = [firstPath];
+  // Paths with equal costs are ordered by their number of nodes.
+  const candidates = new BinaryHeap<YenPath<Node, Cost>>((a, b) =>
+    costOptions.compareFn(
+      a.costs[a.costs.length - 1],
+      b.costs[b.costs.length - 1],
+    ) || a.nodes.length - b.nodes.length
+  );
+  const visited = createKeyTrie();
+  addToKeyTrie(visited, firstPath.keys);
+
+  let previous = firstPath;
+  while (true) {
+    yield [previous.nodes.slice(), previous.costs[previous.costs.length - 1]];
+
+    for (let i = 0; i < previous.nodes.length - 1; i++) {
+      const spurNode = previous.nodes[i];
+      const spurNodeKey = previous.keys[i];
+      const rootPathKeys = previous.keys.slice(0, i);
+
+      // Remove the edges leaving the spur node that are used by already found
+      // paths sharing the same root path.
+      const filteredSuccessorKeys = new Set<unknown>();
+      for (const route of routes) {
+        if (
+          route.keys.length > i + 1 &&
+          route.keys[i] === spurNodeKey &&
+          rootPathKeys.every((key, index) => route.keys[index] === key)
+        ) {
+          filteredSuccessorKeys.add(route.keys[i + 1]);
+        }
+      }
+      // Remove the nodes of the root path so the resulting path stays loopless.
+      const filteredNodeKeys = new Set<unknown>(rootPathKeys);
+
+      const spurPath = shortestPath(
+        options,
+        spurNode,
+        filteredNodeKeys,
+        filteredSuccessorKeys,
+      );
+      if (!spurPath) {
+        continue;
+      }
+      const rootCost = previous.costs[i];
+      const path: YenPath<Node, Cost> = {
+        nodes: previous.nodes.slice(0, i).concat(spurPath.nodes),
+        keys: rootPathKeys.concat(spurPath.keys),
+        costs: previous.costs.slice(0, i).concat(
+          spurPath.costs.map((cost) => costOptions.add(rootCost, cost)),
+        ),
+      };
+      if (
+        options.maxCost !== undefined &&
+        costOptions.compareFn(
+            path.costs[path.costs.length - 1],
+            options.maxCost,
+          ) > 0
+      ) {
+        continue;
+      }
+      if (addToKeyTrie(visited, path.keys)) {
+        candidates.push(path);
+      }
+    }
+
+    const next = candidates.pop();
+    if (!next) {
+      return;
+    }
+    routes.push(next);
+    previous = next;
+  }
+}
+
+interface YenPath<Node, Cost> {
+  nodes: Node[];
+  keys: unknown[];
+  /**
+   * The cost to reach each node of the path from its first node.
+   */
+  costs: Cost[];
+}
+
+/**
+ * Compute a shortest path from the given node, ignoring the nodes in `filteredNodeKeys`
+ * and ignoring the edges from the given node to the nodes in `filteredSuccessorKeys`.
+ */
+function shortestPath<Node, Cost>(
+  options: Omit<DijkstraOptions<Node, Cost>, "start" | "starts" | "startNodes">,
+  start: Node,
+  filteredNodeKeys: ReadonlySet<unknown>,
+  filteredSuccessorKeys: ReadonlySet<unknown>,
+): YenPath<Node, Cost> | undefined {
+  const startKey = options.key(start);
+  const [encounteredNodes, successNode] = dijkstraPartial({
+    ...options,
+    start,
+    successors: function* (node) {
+      const isStart = options.key(node) === startKey;
+      for (const successor of options.successors(node)) {
+        const successorKey = options.key(successor[0]);
+        if (
+          !filteredNodeKeys.has(successorKey) &&
+          !(isStart && filteredSuccessorKeys.has(successorKey))
+        ) {
+          yield successor;
+        }
+      }
+    },
+  });
+  if (successNode === undefined) {
+    return undefined;
+  }
+  const keys = reversePath(
+    encounteredNodes,
+    (e) => e.parentKey,
+    options.key(successNode),
+  );
+  const entries = keys.map((nodeKey) => encounteredNodes.get(nodeKey)!);
+  return {
+    nodes: entries.map((entry) => entry.node),
+    keys,
+    costs: entries.map((entry) => entry.cost),
+  };
+}
+
+interface KeyTrie {
+  children: Map<unknown, KeyTrie>;
+  terminal: boolean;
+}
+
+function createKeyTrie(): KeyTrie {
+  return { children: new Map(), terminal: false };
+}
+
+/**
+ * @returns `false` if the sequence of keys was already present.
+ */
+function addToKeyTrie(trie: KeyTrie, keys: readonly unknown[]): boolean {
+  for (const key of keys) {
+    let child = trie.children.get(key);
+    if (!child) {
+      child = createKeyTrie();
+      trie.children.set(key, child);
+    }
+    trie = child;
+  }
+  if (trie.terminal) {
+    return false;
+  }
+  trie.terminal = true;
+  return true;
+}
@@ -51,6 +51,7 @@ function solve(smallCaveTwice: boolean): number {
           smallCaveTwice: node.smallCaveTwice && !node.smallCaves.includes(x),
         })),
     success: (node) => node.current === "end",
+    key: (node) => JSON.stringify(node),
   });
 }
 